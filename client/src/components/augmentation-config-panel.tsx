@@ -0,0 +1,121 @@
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Wand2 } from 'lucide-react';
+import { AugmentationConfig } from '@/types/ml-types';
+
+interface AugmentationConfigPanelProps {
+  config: AugmentationConfig;
+  onChange: (config: AugmentationConfig) => void;
+  disabled?: boolean;
+}
+
+type TransformKey = 'flip' | 'crop' | 'rotation' | 'brightness' | 'contrast' | 'noise';
+
+// Magnitude slider per transform; flip has no magnitude
+const TRANSFORMS: Array<{
+  key: TransformKey;
+  label: string;
+  magnitude?: { field: string; label: string; min: number; max: number; step: number; format: (value: number) => string };
+}> = [
+  { key: 'flip', label: '左右反転' },
+  {
+    key: 'crop',
+    label: '切り抜き・ズーム',
+    magnitude: { field: 'minScale', label: '最小サイズ', min: 0.5, max: 1, step: 0.05, format: v => `${Math.round(v * 100)}%` },
+  },
+  {
+    key: 'rotation',
+    label: '回転',
+    magnitude: { field: 'maxDegrees', label: '最大角度', min: 0, max: 45, step: 1, format: v => `±${v}°` },
+  },
+  {
+    key: 'brightness',
+    label: '明るさ',
+    magnitude: { field: 'maxDelta', label: '変化量', min: 0, max: 0.5, step: 0.05, format: v => `±${Math.round(v * 100)}%` },
+  },
+  {
+    key: 'contrast',
+    label: 'コントラスト',
+    magnitude: { field: 'maxDelta', label: '変化量', min: 0, max: 0.5, step: 0.05, format: v => `±${Math.round(v * 100)}%` },
+  },
+  {
+    key: 'noise',
+    label: 'ノイズ',
+    magnitude: { field: 'stddev', label: '強さ', min: 0, max: 0.1, step: 0.01, format: v => `${Math.round(v * 100)}%` },
+  },
+];
+
+export function AugmentationConfigPanel({ config, onChange, disabled }: AugmentationConfigPanelProps) {
+  const updateTransform = (key: TransformKey, field: string, value: number) => {
+    onChange({ ...config, [key]: { ...config[key], [field]: value } });
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Wand2 className="w-4 h-4 text-gray-600" />
+          <h4 className="font-medium text-gray-900">データ拡張</h4>
+        </div>
+        <Switch
+          checked={config.enabled}
+          onCheckedChange={(enabled) => onChange({ ...config, enabled })}
+          disabled={disabled}
+        />
+      </div>
+      <p className="text-xs text-gray-500">
+        学習時のみ、各画像からランダムに変形したコピーを作成します。予測時には使われません。
+        クラス一覧の画像にカーソルを合わせるとプレビューできます。
+      </p>
+
+      {config.enabled && (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>画像1枚あたりのコピー数: {config.copiesPerSample}</Label>
+            <Slider
+              value={[config.copiesPerSample]}
+              min={1}
+              max={10}
+              step={1}
+              onValueChange={([value]) => onChange({ ...config, copiesPerSample: value })}
+              disabled={disabled}
+            />
+          </div>
+
+          {TRANSFORMS.map(({ key, label, magnitude }) => {
+            const transform = config[key] as Record<string, number>;
+            return (
+              <div key={key} className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>{label}の確率: {Math.round(transform.probability * 100)}%</Label>
+                  <Slider
+                    value={[transform.probability]}
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    onValueChange={([value]) => updateTransform(key, 'probability', value)}
+                    disabled={disabled}
+                  />
+                </div>
+                {magnitude && (
+                  <div className="space-y-2">
+                    <Label>{magnitude.label}: {magnitude.format(transform[magnitude.field])}</Label>
+                    <Slider
+                      value={[transform[magnitude.field]]}
+                      min={magnitude.min}
+                      max={magnitude.max}
+                      step={magnitude.step}
+                      onValueChange={([value]) => updateTransform(key, magnitude.field, value)}
+                      disabled={disabled || transform.probability === 0}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useEffect, useRef, useState, useCallback } from 'react';
+import * as tf from '@tensorflow/tfjs';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { RefreshCw } from 'lucide-react';
+import { AugmentationConfig, ImageSample } from '@/types/ml-types';
+import { augmentImage } from '@/lib/augmentation';
+import { loadImage } from '@/lib/ml-utils';
+
+interface AugmentationPreviewProps {
+  sample: ImageSample;
+  config: AugmentationConfig;
+  onClose: () => void;
+}
+
+const PREVIEW_COUNT = 8;
+
+export function AugmentationPreview({ sample, config, onClose }: AugmentationPreviewProps) {
+  const canvasRefs = useRef<Array<HTMLCanvasElement | null>>([]);
+  const [isRendering, setIsRendering] = useState(false);
+
+  const renderPreviews = useCallback(async () => {
+    setIsRendering(true);
+    try {
+      const img = await loadImage(sample.url);
+      const pixels = tf.browser.fromPixels(img);
+      for (const canvas of canvasRefs.current) {
+        if (!canvas) continue;
+        const augmented = tf.tidy(() => augmentImage(pixels, config).div(255) as tf.Tensor3D);
+        await tf.browser.toPixels(augmented, canvas);
+        augmented.dispose();
+      }
+      pixels.dispose();
+    } catch (err) {
+      console.error('Augmentation preview error:', err);
+    } finally {
+      setIsRendering(false);
+    }
+  }, [sample.url, config]);
+
+  useEffect(() => {
+    renderPreviews();
+  }, [renderPreviews]);
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>データ拡張プレビュー</DialogTitle>
+          <DialogDescription>
+            現在の設定で学習時に生成される画像の例です。{!config.enabled && '（データ拡張は現在オフです）'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+          <div className="relative">
+            <img src={sample.url} alt="Original sample" className="w-full aspect-square object-cover rounded-lg" />
+            <span className="absolute bottom-1 left-1 bg-black/60 text-white text-xs px-1 rounded">元画像</span>
+          </div>
+          {Array.from({ length: PREVIEW_COUNT }, (_, index) => (
+            <canvas
+              key={index}
+              ref={el => { canvasRefs.current[index] = el; }}
+              className="w-full aspect-square object-cover rounded-lg bg-gray-100"
+            />
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={onClose}>閉じる</Button>
+          <Button onClick={renderPreviews} disabled={isRendering}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${isRendering ? 'animate-spin' : ''}`} />
+            再生成
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
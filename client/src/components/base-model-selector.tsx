@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Cpu, Upload } from 'lucide-react';
+import { BaseModelSpec, BaseModelSource } from '@/types/ml-types';
+import { BASE_MODELS, getBaseModelSpec } from '@/lib/base-models';
+
+interface BaseModelSelectorProps {
+  selected: BaseModelSpec;
+  loaded?: BaseModelSpec;
+  source?: BaseModelSource;
+  onSelect: (spec: BaseModelSpec) => void;
+  onUpload: (files: File[], spec: BaseModelSpec) => void;
+  disabled?: boolean;
+}
+
+const CUSTOM_VALUE = 'custom';
+
+const NORMALIZATION_OPTIONS: Array<{ value: string; label: string; range: [number, number] }> = [
+  { value: '-1,1', label: '[-1, 1]', range: [-1, 1] },
+  { value: '0,1', label: '[0, 1]', range: [0, 1] },
+  { value: '0,255', label: '[0, 255]', range: [0, 255] },
+];
+
+const SOURCE_LABELS: Record<BaseModelSource, string> = {
+  local: 'サーバーから読み込み済み',
+  remote: 'インターネットから読み込み済み',
+  upload: 'アップロード済み',
+  fallback: 'フォールバック（学習済みでないモデル）',
+};
+
+export function BaseModelSelector({ selected, loaded, source, onSelect, onUpload, disabled }: BaseModelSelectorProps) {
+  const [showUpload, setShowUpload] = useState(!!selected.custom);
+  const [files, setFiles] = useState<File[]>([]);
+  const [inputSize, setInputSize] = useState(224);
+  const [normalization, setNormalization] = useState('-1,1');
+  const [featureLayer, setFeatureLayer] = useState('');
+
+  const isLoading = loaded?.id !== selected.id;
+
+  const handleSelect = (value: string) => {
+    if (value === CUSTOM_VALUE) {
+      setShowUpload(true);
+      return;
+    }
+    setShowUpload(false);
+    const spec = getBaseModelSpec(value);
+    if (spec) onSelect(spec);
+  };
+
+  const handleUpload = () => {
+    const modelJson = files.find(file => file.name.endsWith('.json'));
+    if (!modelJson) return;
+
+    const range = NORMALIZATION_OPTIONS.find(option => option.value === normalization)?.range ?? [-1, 1];
+    const name = modelJson.name.replace(/\.json$/, '');
+    onUpload(files, {
+      id: `custom:${name}`,
+      name: `${name}（カスタム）`,
+      inputSize,
+      normalization: range,
+      featureLayer: featureLayer.trim() || undefined,
+      custom: true,
+    });
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Cpu className="w-4 h-4 text-gray-600" />
+          <h4 className="font-medium text-gray-900">ベースモデル</h4>
+        </div>
+        <span className="text-xs text-gray-500">
+          {isLoading ? '読み込み中...' : source ? SOURCE_LABELS[source] : ''}
+        </span>
+      </div>
+
+      <Select
+        value={showUpload ? CUSTOM_VALUE : selected.id}
+        onValueChange={handleSelect}
+        disabled={disabled}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {BASE_MODELS.map(spec => (
+            <SelectItem key={spec.id} value={spec.id}>
+              {spec.name} · {spec.inputSize}px
+            </SelectItem>
+          ))}
+          <SelectItem value={CUSTOM_VALUE}>カスタムモデルをアップロード...</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <p className="text-xs text-gray-500">
+        ベースモデルを変更すると、学習済みモデルは破棄され、画像の特徴量が再計算されます。
+      </p>
+
+      {showUpload && (
+        <div className="space-y-3 pt-2 border-t border-gray-100">
+          <div>
+            <Label htmlFor="base-model-files">model.json と重みファイル</Label>
+            <Input
+              id="base-model-files"
+              type="file"
+              multiple
+              accept=".json,.bin"
+              onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+              disabled={disabled}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="base-model-input-size">入力サイズ (px)</Label>
+              <Input
+                id="base-model-input-size"
+                type="number"
+                min={32}
+                value={inputSize}
+                onChange={(e) => setInputSize(Number(e.target.value))}
+                disabled={disabled}
+              />
+            </div>
+            <div>
+              <Label>正規化範囲</Label>
+              <Select value={normalization} onValueChange={setNormalization} disabled={disabled}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {NORMALIZATION_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="base-model-feature-layer">特徴量レイヤー名（省略可）</Label>
+            <Input
+              id="base-model-feature-layer"
+              placeholder="global_average_pooling2d"
+              value={featureLayer}
+              onChange={(e) => setFeatureLayer(e.target.value)}
+              disabled={disabled}
+            />
+          </div>
+          <Button
+            onClick={handleUpload}
+            disabled={disabled || !files.some(file => file.name.endsWith('.json')) || inputSize < 32}
+            className="w-full"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            このモデルを使用
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
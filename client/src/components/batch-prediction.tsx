@@ -0,0 +1,273 @@
+import { useState, useRef, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Images, FolderOpen, Square, Download, ArrowUp, ArrowDown } from 'lucide-react';
+import { Prediction, TrainingClass } from '@/types/ml-types';
+import { loadImage, downloadBlob, downloadJson } from '@/lib/ml-utils';
+import { REJECTION_REASONS } from '@/lib/open-set';
+import {
+  BatchFile,
+  BatchResult,
+  toBatchFiles,
+  collectDroppedFiles,
+  expectedClass,
+  predictedClass,
+  summarizeBatch,
+  batchToCsv,
+  batchToJson
+} from '@/lib/batch-prediction';
+
+interface BatchPredictionProps {
+  onPredict: (image: HTMLImageElement) => Promise<Prediction[]>;
+  isModelReady: boolean;
+  classes: TrainingClass[];
+}
+
+type SortKey = 'file' | 'predicted' | 'confidence';
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+export function BatchPrediction({ onPredict, isModelReady, classes }: BatchPredictionProps) {
+  const [results, setResults] = useState<BatchResult[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({ key: 'file', ascending: true });
+  const cancelledRef = useRef(false);
+
+  const isRunning = progress !== null;
+  const summary = useMemo(() => summarizeBatch(results), [results]);
+  // Columns follow the model's outputs, which may differ from the current classes
+  const outputNames = useMemo(() => {
+    const scored = results.find(result => result.predictions.length > 0);
+    return scored
+      ? [...scored.predictions].sort((a, b) => a.classIndex - b.classIndex).map(prediction => prediction.className)
+      : [];
+  }, [results]);
+
+  const sortedResults = useMemo(() => {
+    const value = (result: BatchResult): string | number => {
+      if (sort.key === 'file') return result.file;
+      if (sort.key === 'predicted') return predictedClass(result) ?? '';
+      return result.predictions[0]?.confidence ?? -1;
+    };
+    return [...results].sort((a, b) => {
+      const [x, y] = [value(a), value(b)];
+      const order = typeof x === 'number' && typeof y === 'number'
+        ? x - y
+        : String(x).localeCompare(String(y), undefined, { numeric: true });
+      return sort.ascending ? order : -order;
+    });
+  }, [results, sort]);
+
+  const runBatch = async (files: BatchFile[]) => {
+    if (files.length === 0 || isRunning) return;
+    const classNames = classes.map(cls => cls.name);
+    cancelledRef.current = false;
+    setResults([]);
+    setProgress({ done: 0, total: files.length });
+
+    const batch: BatchResult[] = [];
+    for (let index = 0; index < files.length; index++) {
+      if (cancelledRef.current) break;
+      const { file, path } = files[index];
+      const result: BatchResult = { file: path, expected: expectedClass(path, classNames), predictions: [] };
+      const url = URL.createObjectURL(file);
+      try {
+        result.predictions = await onPredict(await loadImage(url));
+      } catch (err) {
+        result.error = err instanceof Error ? err.message : 'Prediction failed';
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+      batch.push(result);
+      setProgress({ done: index + 1, total: files.length });
+      // Results are shown in chunks so long batches do not re-render every image
+      if (batch.length % 20 === 0) setResults([...batch]);
+    }
+    setResults(batch);
+    setProgress(null);
+  };
+
+  const handleBrowse = (folder: boolean) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.multiple = true;
+    input.accept = 'image/*';
+    if (folder) input.webkitdirectory = true;
+    input.onchange = (e) => {
+      const files = (e.target as HTMLInputElement).files;
+      if (files) runBatch(toBatchFiles(files));
+    };
+    input.click();
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    if (!isModelReady) return;
+    runBatch(await collectDroppedFiles(e.dataTransfer));
+  };
+
+  const handleSort = (key: SortKey) => {
+    setSort(prev => ({ key, ascending: prev.key === key ? !prev.ascending : key !== 'confidence' }));
+  };
+
+  const handleDownloadCsv = () => {
+    const csv = batchToCsv(sortedResults, outputNames);
+    downloadBlob('batch-predictions.csv', new Blob([csv], { type: 'text/csv' }));
+  };
+
+  const getClassColor = (className: string) =>
+    classes.find(cls => cls.name === className)?.color ?? 'bg-gray-400';
+
+  const SortHeader = ({ sortKey, label, className = '' }: { sortKey: SortKey; label: string; className?: string }) => (
+    <th className={`py-2 pr-4 font-medium ${className}`}>
+      <button className="inline-flex items-center hover:text-gray-900" onClick={() => handleSort(sortKey)}>
+        {label}
+        {sort.key === sortKey && (sort.ascending
+          ? <ArrowUp className="w-3 h-3 ml-1" />
+          : <ArrowDown className="w-3 h-3 ml-1" />)}
+      </button>
+    </th>
+  );
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">一括予測</h2>
+        <p className="text-sm text-gray-600">
+          たくさんの画像をまとめて予測します。クラス名のフォルダに分けておくと正解率も計算します。
+        </p>
+      </div>
+
+      <div
+        className={`drag-zone border-2 border-dashed rounded-lg p-6 text-center transition-all ${
+          isDragOver ? 'dragover' : ''
+        } ${isModelReady && !isRunning ? 'hover:bg-blue-50' : 'opacity-60'}`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragOver(true);
+        }}
+        onDragLeave={(e) => {
+          e.preventDefault();
+          if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragOver(false);
+        }}
+        onDrop={handleDrop}
+      >
+        <Images className="w-6 h-6 text-blue-500 mx-auto mb-2" />
+        <p className="text-sm text-gray-600 mb-3">画像ファイルやフォルダをここにドロップ</p>
+        <div className="flex justify-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => handleBrowse(false)} disabled={!isModelReady || isRunning}>
+            <Images className="w-4 h-4 mr-2" />
+            画像を選択
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleBrowse(true)} disabled={!isModelReady || isRunning}>
+            <FolderOpen className="w-4 h-4 mr-2" />
+            フォルダを選択
+          </Button>
+        </div>
+      </div>
+
+      {progress && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm text-gray-600">
+            <span>予測中... {progress.done} / {progress.total}</span>
+            <Button variant="outline" size="sm" onClick={() => { cancelledRef.current = true; }}>
+              <Square className="w-4 h-4 mr-2" />
+              中止
+            </Button>
+          </div>
+          <Progress value={(progress.done / progress.total) * 100} />
+        </div>
+      )}
+
+      {results.length > 0 && (
+        <>
+          <div className="flex items-center justify-between">
+            <div className="text-sm text-gray-700 space-x-4">
+              <span>{summary.total} 枚</span>
+              {summary.failed > 0 && <span className="text-red-600">失敗 {summary.failed} 枚</span>}
+              {summary.accuracy !== undefined && (
+                <span className="font-medium text-blue-700">
+                  正解率 {formatPercent(summary.accuracy)}（{summary.correct} / {summary.labeled}）
+                </span>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={handleDownloadCsv} disabled={isRunning}>
+                <Download className="w-4 h-4 mr-2" />
+                CSV
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => downloadJson('batch-predictions.json', batchToJson(sortedResults))}
+                disabled={isRunning}
+              >
+                <Download className="w-4 h-4 mr-2" />
+                JSON
+              </Button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto max-h-96 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-white">
+                <tr className="text-left text-gray-500 border-b">
+                  <SortHeader sortKey="file" label="ファイル" />
+                  <SortHeader sortKey="predicted" label="予測クラス" />
+                  <SortHeader sortKey="confidence" label="信頼度" className="text-right" />
+                  <th className="py-2 font-medium">内訳</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sortedResults.map(result => {
+                  const top = result.predictions[0];
+                  const wrong = result.expected !== undefined && top && predictedClass(result) !== result.expected;
+                  return (
+                    <tr key={result.file} className={`border-b last:border-0 ${wrong ? 'bg-red-50' : ''}`}>
+                      <td className="py-2 pr-4 font-mono text-xs break-all">
+                        {result.file}
+                        {result.expected !== undefined && (
+                          <div className="text-gray-500 font-sans">正解: {result.expected}</div>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {!top ? (
+                          <span className="text-red-600">{result.error}</span>
+                        ) : top.rejected ? (
+                          <span title={REJECTION_REASONS[top.rejected]}>
+                            <span className="px-1.5 py-0.5 rounded bg-gray-200 text-gray-700 text-xs font-medium">不明</span>
+                            <span className="text-xs text-gray-500 ml-1">（{top.className}）</span>
+                          </span>
+                        ) : top.className}
+                      </td>
+                      <td className="py-2 pr-4 text-right tabular-nums">
+                        {top ? `${top.confidence.toFixed(1)}%` : '-'}
+                      </td>
+                      <td className="py-2 min-w-[160px]">
+                        <div className="flex h-2 rounded-full overflow-hidden bg-gray-200">
+                          {[...result.predictions].sort((a, b) => a.classIndex - b.classIndex).map(prediction => (
+                            <div
+                              key={prediction.classIndex}
+                              className={getClassColor(prediction.className)}
+                              style={{ width: `${prediction.confidence}%` }}
+                              title={`${prediction.className}: ${prediction.confidence.toFixed(1)}%`}
+                            />
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
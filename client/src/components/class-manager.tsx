@@ -1,32 +1,51 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
-import { Trash2, Upload, Camera, X } from 'lucide-react';
-import { TrainingClass, ImageSample } from '@/types/ml-types';
-import { resizeImage } from '@/lib/ml-utils';
+import { Trash2, Upload, Camera, X, Wand2, Pin, ScanEye } from 'lucide-react';
+import { TrainingClass, ImageSample, AugmentationConfig } from '@/types/ml-types';
+import { createImageSample } from '@/lib/ml-utils';
+import { CLASS_COLORS } from '@/lib/model-classes';
 import { useWebcam } from '@/hooks/use-webcam';
 import { WebcamCapture } from './webcam-capture';
+import { AugmentationPreview } from './augmentation-preview';
+import { SaliencyOverlay, SaliencyClass } from './saliency-overlay';
+import { SaliencyMap } from '@/lib/saliency';
 
 interface ClassManagerProps {
   classes: TrainingClass[];
   onClassesChange: (classes: TrainingClass[]) => void;
+  augmentationConfig: AugmentationConfig;
+  // Given once a model is ready; adds a saliency view to every sample
+  onExplain?: (image: HTMLImageElement, classIndex: number) => Promise<SaliencyMap>;
+  explainOutputs?: SaliencyClass[];
+  focusedSample?: SampleFocus | null;
 }
 
-const CLASS_COLORS = [
-  'bg-green-500',
-  'bg-orange-500', 
-  'bg-blue-500',
-  'bg-purple-500',
-  'bg-pink-500',
-  'bg-indigo-500',
-  'bg-red-500',
-  'bg-yellow-500'
-];
+// A sample to scroll to and highlight; a new requestedAt repeats the jump
+export interface SampleFocus {
+  sampleId: string;
+  requestedAt: number;
+}
+
+const FOCUS_HIGHLIGHT_MS = 2000;
 
-export function ClassManager({ classes, onClassesChange }: ClassManagerProps) {
+export function ClassManager({ classes, onClassesChange, augmentationConfig, onExplain, explainOutputs = [], focusedSample }: ClassManagerProps) {
   const [dragOverClass, setDragOverClass] = useState<string | null>(null);
   const [showWebcamCapture, setShowWebcamCapture] = useState<string | null>(null);
+  const [previewSample, setPreviewSample] = useState<ImageSample | null>(null);
+  const [explainedSample, setExplainedSample] = useState<{ sample: ImageSample; classId: string } | null>(null);
+  const canExplain = !!onExplain && explainOutputs.length > 0;
+  const sampleRefs = useRef(new Map<string, HTMLDivElement>());
+  const [highlightedSampleId, setHighlightedSampleId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!focusedSample) return;
+    sampleRefs.current.get(focusedSample.sampleId)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedSampleId(focusedSample.sampleId);
+    const timer = setTimeout(() => setHighlightedSampleId(null), FOCUS_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [focusedSample]);
 
   const addNewClass = useCallback(() => {
     const newClass: TrainingClass = {
@@ -52,36 +71,13 @@ export function ClassManager({ classes, onClassesChange }: ClassManagerProps) {
 
   const addSampleToClass = useCallback(async (classId: string, file: File) => {
     try {
-      const resizedBlob = await resizeImage(file);
-      const url = URL.createObjectURL(resizedBlob);
-      
-      // Create a temporary image to get ImageData
-      const img = new Image();
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        if (ctx) {
-          canvas.width = img.width;
-          canvas.height = img.height;
-          ctx.drawImage(img, 0, 0);
-          const imageData = ctx.getImageData(0, 0, img.width, img.height);
-          
-          const newSample: ImageSample = {
-            id: `sample-${Date.now()}-${Math.random()}`,
-            imageData,
-            blob: resizedBlob,
-            url
-          };
-
-          const updatedClasses = classes.map(cls => 
-            cls.id === classId 
-              ? { ...cls, samples: [...cls.samples, newSample] }
-              : cls
-          );
-          onClassesChange(updatedClasses);
-        }
-      };
-      img.src = url;
+      const newSample = await createImageSample(file);
+      const updatedClasses = classes.map(cls => 
+        cls.id === classId 
+          ? { ...cls, samples: [...cls.samples, newSample] }
+          : cls
+      );
+      onClassesChange(updatedClasses);
     } catch (error) {
       console.error('Error adding sample:', error);
     }
@@ -104,6 +100,20 @@ export function ClassManager({ classes, onClassesChange }: ClassManagerProps) {
     onClassesChange(updatedClasses);
   }, [classes, onClassesChange]);
 
+  const toggleValidationPin = useCallback((classId: string, sampleId: string) => {
+    const updatedClasses = classes.map(cls => 
+      cls.id === classId
+        ? {
+            ...cls,
+            samples: cls.samples.map(sample => 
+              sample.id === sampleId ? { ...sample, pinnedToValidation: !sample.pinnedToValidation } : sample
+            )
+          }
+        : cls
+    );
+    onClassesChange(updatedClasses);
+  }, [classes, onClassesChange]);
+
   const handleFileUpload = useCallback((classId: string, files: FileList) => {
     Array.from(files).forEach(file => {
       if (file.type.startsWith('image/')) {
@@ -179,6 +189,8 @@ export function ClassManager({ classes, onClassesChange }: ClassManagerProps) {
               <div className="flex items-center space-x-2">
                 <span className="text-sm text-gray-500">
                   {classData.samples.length} samples
+                  {classData.samples.some(sample => sample.pinnedToValidation) &&
+                    ` (${classData.samples.filter(sample => sample.pinnedToValidation).length} pinned)`}
                 </span>
                 <Button
                   variant="ghost"
@@ -194,12 +206,32 @@ export function ClassManager({ classes, onClassesChange }: ClassManagerProps) {
             {/* Sample Images Grid */}
             <div className="grid grid-cols-4 sm:grid-cols-6 md:grid-cols-8 gap-2 mb-4">
               {classData.samples.map((sample) => (
-                <div key={sample.id} className="relative group">
+                <div
+                  key={sample.id}
+                  ref={el => {
+                    if (el) sampleRefs.current.set(sample.id, el);
+                    else sampleRefs.current.delete(sample.id);
+                  }}
+                  className={`relative group rounded-lg ${highlightedSampleId === sample.id ? 'ring-4 ring-blue-500' : ''}`}
+                >
                   <img
                     src={sample.url}
                     alt="Training sample"
-                    className="w-full h-16 object-cover rounded-lg"
+                    className={`w-full h-16 object-cover rounded-lg ${sample.pinnedToValidation ? 'ring-2 ring-amber-500' : ''}`}
                   />
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => toggleValidationPin(classData.id, sample.id)}
+                    title={sample.pinnedToValidation ? '検証用の固定を解除' : '常に検証データとして使用'}
+                    className={`absolute -top-1 -left-1 w-5 h-5 rounded-full text-xs transition-opacity p-0 ${
+                      sample.pinnedToValidation
+                        ? 'bg-amber-500 hover:bg-amber-600 text-white opacity-100'
+                        : 'bg-gray-500 hover:bg-gray-600 text-white opacity-0 group-hover:opacity-100'
+                    }`}
+                  >
+                    <Pin className="w-3 h-3" />
+                  </Button>
                   <Button
                     variant="secondary"
                     size="sm"
@@ -208,6 +240,26 @@ export function ClassManager({ classes, onClassesChange }: ClassManagerProps) {
                   >
                     <X className="w-3 h-3" />
                   </Button>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => setPreviewSample(sample)}
+                    title="データ拡張プレビュー"
+                    className="absolute -bottom-1 -right-1 w-5 h-5 bg-purple-500 hover:bg-purple-600 text-white rounded-full text-xs opacity-0 group-hover:opacity-100 transition-opacity p-0"
+                  >
+                    <Wand2 className="w-3 h-3" />
+                  </Button>
+                  {canExplain && (
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => setExplainedSample({ sample, classId: classData.id })}
+                      title="注目領域"
+                      className="absolute -bottom-1 -left-1 w-5 h-5 bg-orange-500 hover:bg-orange-600 text-white rounded-full text-xs opacity-0 group-hover:opacity-100 transition-opacity p-0"
+                    >
+                      <ScanEye className="w-3 h-3" />
+                    </Button>
+                  )}
                 </div>
               ))}
             </div>
@@ -255,6 +307,24 @@ export function ClassManager({ classes, onClassesChange }: ClassManagerProps) {
           onClose={() => setShowWebcamCapture(null)}
         />
       )}
+
+      {previewSample && (
+        <AugmentationPreview
+          sample={previewSample}
+          config={augmentationConfig}
+          onClose={() => setPreviewSample(null)}
+        />
+      )}
+
+      {explainedSample && onExplain && (
+        <SaliencyOverlay
+          imageUrl={explainedSample.sample.url}
+          outputs={explainOutputs}
+          initialClassIndex={Math.max(0, explainOutputs.findIndex(output => output.id === explainedSample.classId))}
+          onExplain={onExplain}
+          onClose={() => setExplainedSample(null)}
+        />
+      )}
     </Card>
   );
 }
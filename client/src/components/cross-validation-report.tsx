@@ -0,0 +1,82 @@
+import { Layers, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { CrossValidationReport, MetricSummary } from '@/types/ml-types';
+import { downloadJson } from '@/lib/ml-utils';
+import { BALANCING_STRATEGIES } from '@/components/training-config-panel';
+
+interface CrossValidationReportViewProps {
+  report: CrossValidationReport;
+}
+
+function formatPercent({ mean, std }: MetricSummary): string {
+  return `${(mean * 100).toFixed(1)}% ± ${(std * 100).toFixed(1)}`;
+}
+
+export function CrossValidationReportView({ report }: CrossValidationReportViewProps) {
+  const balancing = BALANCING_STRATEGIES.find(option => option.value === report.balancing);
+
+  const handleDownload = () => {
+    downloadJson('cross-validation-report.json', report);
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Layers className="w-4 h-4 text-gray-600" />
+          <h4 className="font-medium text-gray-900">交差検証の結果（{report.folds.length} 分割）</h4>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleDownload}>
+          <Download className="w-4 h-4 mr-2" />
+          JSON
+        </Button>
+      </div>
+
+      <p className="text-xs text-gray-500">不均衡対策: {balancing?.label ?? 'なし'}</p>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="bg-blue-50 rounded-lg p-3 text-center">
+          <div className="text-2xl font-bold text-blue-700">{formatPercent(report.accuracy)}</div>
+          <div className="text-xs text-blue-900">正解率（平均 ± 標準偏差）</div>
+        </div>
+        <div className="bg-orange-50 rounded-lg p-3 text-center">
+          <div className="text-2xl font-bold text-orange-700">
+            {report.loss.mean.toFixed(3)} ± {report.loss.std.toFixed(3)}
+          </div>
+          <div className="text-xs text-orange-900">損失（平均 ± 標準偏差）</div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 pr-4 font-medium">クラス</th>
+              <th className="py-2 pr-4 font-medium text-right">適合率</th>
+              <th className="py-2 pr-4 font-medium text-right">再現率</th>
+              <th className="py-2 font-medium text-right">F1</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.perClass.map(metrics => (
+              <tr key={metrics.className} className="border-b border-gray-100">
+                <td className="py-2 pr-4 font-medium text-gray-900">{metrics.className}</td>
+                <td className="py-2 pr-4 text-right">{formatPercent(metrics.precision)}</td>
+                <td className="py-2 pr-4 text-right">{formatPercent(metrics.recall)}</td>
+                <td className="py-2 text-right">{formatPercent(metrics.f1)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-xs text-gray-600">
+        {report.folds.map((fold, index) => (
+          <span key={index} className="bg-gray-100 rounded px-2 py-1">
+            分割 {index + 1}: {(fold.accuracy * 100).toFixed(1)}%（{fold.sampleCount} 枚）
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useState, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { ClipboardCheck, Download } from 'lucide-react';
+import { TrainingRecord, TrainingClass, ImageSample } from '@/types/ml-types';
+import { downloadJson } from '@/lib/ml-utils';
+import { BALANCING_STRATEGIES } from '@/components/training-config-panel';
+
+interface EvaluationReportViewProps {
+  record: TrainingRecord;
+  classes: TrainingClass[];
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+export function EvaluationReportView({ record, classes }: EvaluationReportViewProps) {
+  const [selectedCell, setSelectedCell] = useState<{ actual: number; predicted: number } | null>(null);
+  const evaluation = record.evaluation;
+
+  const samplesById = useMemo(() => {
+    const map = new Map<string, ImageSample>();
+    classes.forEach(cls => cls.samples.forEach(sample => map.set(sample.id, sample)));
+    return map;
+  }, [classes]);
+
+  const handleDownload = () => {
+    downloadJson(`evaluation-report-${record.completedAt.replace(/[:.]/g, '-')}.json`, record);
+  };
+
+  if (!evaluation) {
+    // Trained on every sample after cross-validation; the fold scores are the estimate
+    if (record.crossValidation) return null;
+    return (
+      <div className="border border-gray-200 rounded-lg p-4 text-sm text-gray-500">
+        検証データがないため評価レポートはありません。学習設定で検証データの割合を0より大きくしてください。
+      </div>
+    );
+  }
+
+  const maxCount = Math.max(1, ...evaluation.confusionMatrix.flat());
+  const balancing = BALANCING_STRATEGIES.find(option => option.value === record.config.balancing);
+  const selectedSamples = selectedCell
+    ? evaluation.cellSampleIds[selectedCell.actual][selectedCell.predicted]
+        .map(id => samplesById.get(id))
+        .filter((sample): sample is ImageSample => !!sample)
+    : [];
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <ClipboardCheck className="w-4 h-4 text-gray-600" />
+          <h4 className="font-medium text-gray-900">評価レポート（検証データ {evaluation.sampleCount} 枚）</h4>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleDownload}>
+          <Download className="w-4 h-4 mr-2" />
+          JSON
+        </Button>
+      </div>
+
+      <p className="text-xs text-gray-500">不均衡対策: {balancing?.label ?? 'なし'}</p>
+      {record.config.earlyStopping.enabled && (
+        <p className="text-xs text-amber-700">
+          早期終了が採用するエポックもこの検証データで選んでいるため、未知のデータでの精度よりやや高めに出ます（テストデータでの評価ではありません）。
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="bg-blue-50 rounded-lg p-3 text-center">
+          <div className="text-2xl font-bold text-blue-700">{formatPercent(evaluation.accuracy)}</div>
+          <div className="text-xs text-blue-900">正解率</div>
+        </div>
+        <div className="bg-purple-50 rounded-lg p-3 text-center">
+          <div className="text-2xl font-bold text-purple-700">{formatPercent(evaluation.macroF1)}</div>
+          <div className="text-xs text-purple-900">マクロF1</div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 pr-4 font-medium">クラス</th>
+              <th className="py-2 pr-4 font-medium text-right">適合率</th>
+              <th className="py-2 pr-4 font-medium text-right">再現率</th>
+              <th className="py-2 pr-4 font-medium text-right">F1</th>
+              <th className="py-2 font-medium text-right">枚数</th>
+            </tr>
+          </thead>
+          <tbody>
+            {evaluation.perClass.map(metrics => (
+              <tr key={metrics.className} className="border-b border-gray-100">
+                <td className="py-2 pr-4 font-medium text-gray-900">{metrics.className}</td>
+                <td className="py-2 pr-4 text-right">{formatPercent(metrics.precision)}</td>
+                <td className="py-2 pr-4 text-right">{formatPercent(metrics.recall)}</td>
+                <td className="py-2 pr-4 text-right">{formatPercent(metrics.f1)}</td>
+                <td className="py-2 text-right text-gray-500">{metrics.support}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <h5 className="text-sm font-medium text-gray-700 mb-2">混同行列（行: 正解、列: 予測）— セルをクリックすると画像を表示</h5>
+        <div className="overflow-x-auto">
+          <table className="text-sm">
+            <thead>
+              <tr>
+                <th />
+                {evaluation.classNames.map(name => (
+                  <th key={name} className="px-2 py-1 font-medium text-gray-500 max-w-[6rem] truncate">{name}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {evaluation.confusionMatrix.map((row, actual) => (
+                <tr key={actual}>
+                  <th className="pr-2 py-1 text-right font-medium text-gray-500 max-w-[6rem] truncate">
+                    {evaluation.classNames[actual]}
+                  </th>
+                  {row.map((count, predicted) => {
+                    const isSelected = selectedCell?.actual === actual && selectedCell?.predicted === predicted;
+                    const intensity = count / maxCount;
+                    return (
+                      <td key={predicted} className="p-0.5">
+                        <button
+                          onClick={() => setSelectedCell(isSelected ? null : { actual, predicted })}
+                          disabled={count === 0}
+                          className={`w-12 h-12 rounded font-medium ${isSelected ? 'ring-2 ring-blue-600' : ''} ${
+                            intensity > 0.5 ? 'text-white' : 'text-gray-900'
+                          }`}
+                          style={{
+                            backgroundColor: actual === predicted
+                              ? `rgba(22, 163, 74, ${0.1 + intensity * 0.8})`
+                              : `rgba(220, 38, 38, ${count === 0 ? 0.05 : 0.1 + intensity * 0.8})`
+                          }}
+                        >
+                          {count}
+                        </button>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {selectedCell && (
+        <div className="bg-gray-50 rounded-lg p-3">
+          <p className="text-sm text-gray-700 mb-2">
+            正解「{evaluation.classNames[selectedCell.actual]}」→ 予測「{evaluation.classNames[selectedCell.predicted]}」
+          </p>
+          {selectedSamples.length === 0 ? (
+            <p className="text-xs text-gray-500">該当する画像は削除されています</p>
+          ) : (
+            <div className="grid grid-cols-6 sm:grid-cols-8 gap-2">
+              {selectedSamples.map(sample => (
+                <img key={sample.id} src={sample.url} alt="Evaluation sample" className="w-full h-14 object-cover rounded" />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
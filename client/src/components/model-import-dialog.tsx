@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Upload, FileJson, X } from 'lucide-react';
+
+interface ModelImportDialogProps {
+  onImport: (files: File[]) => Promise<boolean>;
+  onClose: () => void;
+}
+
+export function ModelImportDialog({ onImport, onClose }: ModelImportDialogProps) {
+  const [files, setFiles] = useState<File[]>([]);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Files are collected across drops; a file with the same name replaces the earlier one
+  const addFiles = (added: FileList | null) => {
+    if (!added) return;
+    const incoming = Array.from(added).filter(file => /\.(json|bin|zip)$/.test(file.name));
+    setFiles(prev => [...prev.filter(file => !incoming.some(other => other.name === file.name)), ...incoming]);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    addFiles(e.dataTransfer.files);
+  };
+
+  const handleBrowse = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.multiple = true;
+    input.accept = '.json,.bin,.zip';
+    input.onchange = (e) => addFiles((e.target as HTMLInputElement).files);
+    input.click();
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      if (await onImport(files)) onClose();
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>モデルのインポート</DialogTitle>
+          <DialogDescription>
+            エクスポートした zip、または model.json と重みファイル（.bin）を選んでください。
+            メタデータファイルも追加すると、クラス名・色・前処理が復元されます。Teachable Machine で作成したモデルも読み込めます。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div
+          className={`drag-zone border-2 border-dashed rounded-lg p-6 text-center hover:bg-blue-50 transition-all cursor-pointer ${
+            isDragOver ? 'dragover' : ''
+          }`}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragOver(true);
+          }}
+          onDragLeave={(e) => {
+            e.preventDefault();
+            if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragOver(false);
+          }}
+          onDrop={handleDrop}
+          onClick={handleBrowse}
+        >
+          <Upload className="w-6 h-6 text-blue-500 mx-auto mb-2" />
+          <p className="text-sm text-gray-600 mb-1">Drag & drop model files here</p>
+          <p className="text-xs text-gray-500">or click to browse</p>
+        </div>
+
+        {files.length > 0 && (
+          <ul className="space-y-1">
+            {files.map(file => (
+              <li key={file.name} className="flex items-center justify-between text-sm bg-gray-50 rounded px-2 py-1">
+                <span className="flex items-center space-x-2 truncate">
+                  <FileJson className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                  <span className="truncate">{file.name}</span>
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => setFiles(prev => prev.filter(other => other !== file))}
+                >
+                  <X className="w-3 h-3" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <p className="text-xs text-gray-500">
+          インポートすると、ベースモデルはモデルに含まれるものに置き換わります。同じ名前のクラスの画像は残ります。
+        </p>
+
+        <Button
+          onClick={handleImport}
+          disabled={isImporting || !files.some(file => /\.(json|zip)$/.test(file.name))}
+          className="w-full"
+        >
+          <Upload className="w-4 h-4 mr-2" />
+          {isImporting ? 'インポート中...' : 'インポート'}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
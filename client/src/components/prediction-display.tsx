@@ -2,18 +2,50 @@ import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
-import { Video, VideoOff, Camera, Eye } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Video, VideoOff, Camera, Eye, HelpCircle, Activity, ScanEye } from 'lucide-react';
 import { Prediction, TrainingClass } from '@/types/ml-types';
 import { useWebcam } from '@/hooks/use-webcam';
+import { usePredictionLoop, PredictionFrame } from '@/hooks/use-prediction-loop';
+import { REJECTION_REASONS } from '@/lib/open-set';
+import { DEFAULT_SMOOTHING_CONFIG, SmoothingConfig, SmoothingMethod } from '@/lib/prediction-smoothing';
+import { SaliencyMap } from '@/lib/saliency';
+import { NearestSample } from '@/lib/nearest-samples';
+import { SaliencyOverlay, SaliencyClass } from './saliency-overlay';
 
 interface PredictionDisplayProps {
   predictions: Prediction[];
+  nearestSamples: NearestSample[]; // Training samples nearest to the image behind `predictions`
   onPredict: (element: HTMLVideoElement | HTMLImageElement) => void;
+  // Used by continuous mode, which shows its own smoothed predictions
+  onPredictFrame: (video: HTMLVideoElement) => Promise<PredictionFrame>;
+  onExplain: (image: HTMLImageElement, classIndex: number) => Promise<SaliencyMap>;
+  explainOutputs: SaliencyClass[];
+  onSelectSample: (sampleId: string) => void;
   isModelReady: boolean;
   classes: TrainingClass[];
 }
 
-export function PredictionDisplay({ predictions, onPredict, isModelReady, classes }: PredictionDisplayProps) {
+const SMOOTHING_METHODS: Array<{ value: SmoothingMethod; label: string }> = [
+  { value: 'none', label: 'なし' },
+  { value: 'moving_average', label: '移動平均' },
+  { value: 'exponential', label: '指数平滑' },
+];
+
+export function PredictionDisplay({
+  predictions,
+  nearestSamples,
+  onPredict,
+  onPredictFrame,
+  onExplain,
+  explainOutputs,
+  onSelectSample,
+  isModelReady,
+  classes
+}: PredictionDisplayProps) {
   const { 
     videoRef, 
     canvasRef, 
@@ -27,6 +59,19 @@ export function PredictionDisplay({ predictions, onPredict, isModelReady, classe
   } = useWebcam();
   
   const [lastCapturedImage, setLastCapturedImage] = useState<string | null>(null);
+  const [continuous, setContinuous] = useState(false);
+  const [targetFps, setTargetFps] = useState(10);
+  const [smoothing, setSmoothing] = useState<SmoothingConfig>(DEFAULT_SMOOTHING_CONFIG);
+  const [explainedFrame, setExplainedFrame] = useState<string | null>(null);
+
+  const isLive = continuous && isActive && isModelReady;
+  const live = usePredictionLoop({ videoRef, predict: onPredictFrame, enabled: isLive, targetFps, smoothing });
+  const shownPredictions = isLive ? live.predictions : predictions;
+  const nearest = isLive ? live.nearest : nearestSamples;
+
+  const updateSmoothing = <K extends keyof SmoothingConfig>(key: K, value: SmoothingConfig[K]) => {
+    setSmoothing(prev => ({ ...prev, [key]: value }));
+  };
 
   const handleToggleWebcam = () => {
     if (isActive) {
@@ -46,6 +91,17 @@ export function PredictionDisplay({ predictions, onPredict, isModelReady, classe
     }
   };
 
+  // Freezes the current frame and opens its saliency map for the top class
+  const handleExplain = async () => {
+    try {
+      const imageData = await captureImage();
+      setLastCapturedImage(imageData.url);
+      setExplainedFrame(imageData.url);
+    } catch (err) {
+      console.error('Capture error:', err);
+    }
+  };
+
   const handlePredict = () => {
     if (videoRef.current && isActive) {
       onPredict(videoRef.current);
@@ -58,7 +114,7 @@ export function PredictionDisplay({ predictions, onPredict, isModelReady, classe
     return matchingClass ? matchingClass.color : 'bg-gray-400';
   };
 
-  const topPrediction = predictions.length > 0 ? predictions[0] : null;
+  const topPrediction = shownPredictions.length > 0 ? shownPredictions[0] : null;
 
   return (
     <div className="space-y-6">
@@ -145,7 +201,7 @@ export function PredictionDisplay({ predictions, onPredict, isModelReady, classe
             <ol className="text-sm text-blue-800 space-y-1">
               <li>1. 「カメラ開始」ボタンをクリック</li>
               <li>2. トレーニングした対象をカメラに映す</li>
-              <li>3. 「予測実行」ボタンをクリックして結果を確認</li>
+              <li>3. 「予測実行」ボタンをクリック（または連続予測をオン）して結果を確認</li>
             </ol>
           </div>
         )}
@@ -163,11 +219,110 @@ export function PredictionDisplay({ predictions, onPredict, isModelReady, classe
           <Button
             className="flex-1 bg-blue-600 hover:bg-blue-700"
             onClick={handlePredict}
-            disabled={!isActive || !isModelReady}
+            disabled={!isActive || !isModelReady || continuous}
           >
             <Eye className="w-4 h-4 mr-2" />
             予測実行
           </Button>
+          <Button
+            variant="outline"
+            className="flex-1"
+            onClick={handleExplain}
+            disabled={!isActive || !isModelReady || explainOutputs.length === 0}
+          >
+            <ScanEye className="w-4 h-4 mr-2" />
+            注目領域
+          </Button>
+        </div>
+
+        <div className="mt-4 pt-4 border-t border-gray-100 space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <Label>連続予測</Label>
+              <p className="text-xs text-gray-500">カメラの映像を毎秒 {targetFps} 回まで自動で予測します</p>
+            </div>
+            <Switch checked={continuous} onCheckedChange={setContinuous} disabled={!isModelReady} />
+          </div>
+
+          {continuous && (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>予測レート: {targetFps} fps</Label>
+                  <Slider
+                    value={[targetFps]}
+                    min={1}
+                    max={30}
+                    step={1}
+                    onValueChange={([value]) => setTargetFps(value)}
+                  />
+                </div>
+                <div>
+                  <Label>平滑化</Label>
+                  <Select
+                    value={smoothing.method}
+                    onValueChange={(value) => updateSmoothing('method', value as SmoothingMethod)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SMOOTHING_METHODS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {smoothing.method === 'moving_average' && (
+                  <div className="space-y-2">
+                    <Label>平均するフレーム数: {smoothing.windowSize}</Label>
+                    <Slider
+                      value={[smoothing.windowSize]}
+                      min={2}
+                      max={30}
+                      step={1}
+                      onValueChange={([value]) => updateSmoothing('windowSize', value)}
+                    />
+                  </div>
+                )}
+                {smoothing.method === 'exponential' && (
+                  <div className="space-y-2">
+                    <Label>新しいフレームの重み: {smoothing.alpha.toFixed(2)}</Label>
+                    <Slider
+                      value={[smoothing.alpha]}
+                      min={0.05}
+                      max={1}
+                      step={0.05}
+                      onValueChange={([value]) => updateSmoothing('alpha', value)}
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label>ラベル切り替えの余裕: {smoothing.hysteresis}ポイント</Label>
+                  <Slider
+                    value={[smoothing.hysteresis]}
+                    min={0}
+                    max={40}
+                    step={1}
+                    onValueChange={([value]) => updateSmoothing('hysteresis', value)}
+                  />
+                  <p className="text-xs text-gray-500">表示中のラベルより信頼度がこれ以上高いクラスが出るまで切り替えません</p>
+                </div>
+              </div>
+
+              {isLive && (
+                <div className="flex items-center space-x-4 text-sm text-gray-600 bg-gray-50 rounded-lg px-3 py-2">
+                  <Activity className="w-4 h-4 text-green-600" />
+                  <span>{live.stats.fps} fps</span>
+                  <span>遅延 {live.stats.latency.toFixed(0)} ms</span>
+                  <span>スキップ {live.stats.skippedFrames} フレーム</span>
+                </div>
+              )}
+            </>
+          )}
         </div>
       </Card>
 
@@ -175,14 +330,18 @@ export function PredictionDisplay({ predictions, onPredict, isModelReady, classe
       <Card className="p-6">
         <h2 className="text-lg font-semibold text-gray-900 mb-4">予測結果</h2>
         
-        {predictions.length === 0 ? (
+        {shownPredictions.length === 0 ? (
           <div className="text-center py-8 text-gray-500">
             <Eye className="w-12 h-12 mx-auto mb-4 opacity-50" />
-            <p>{isModelReady ? "「予測実行」ボタンを押して結果を確認" : "先にモデルをトレーニングしてください"}</p>
+            <p>
+              {!isModelReady
+                ? "先にモデルをトレーニングしてください"
+                : isLive ? "予測を開始しています..." : "「予測実行」ボタンを押して結果を確認"}
+            </p>
           </div>
         ) : (
           <div className="space-y-4">
-            {predictions.map((prediction, index) => (
+            {shownPredictions.map((prediction, index) => (
               <div key={index} className="flex items-center justify-between">
                 <div className="flex items-center space-x-3">
                   <div className={`w-8 h-8 ${getClassColor(prediction)} rounded-full flex items-center justify-center text-white font-medium text-sm`}>
@@ -204,19 +363,65 @@ export function PredictionDisplay({ predictions, onPredict, isModelReady, classe
               </div>
             ))}
 
+            {nearest.length > 0 && (
+              <div className="pt-4 border-t border-gray-100">
+                <h3 className="text-sm font-medium text-gray-900">似ている学習画像</h3>
+                <p className="text-xs text-gray-500 mb-2">クリックするとクラスの画像一覧でその画像を表示します</p>
+                <div className="flex gap-2 overflow-x-auto">
+                  {nearest.map(item => (
+                    <button
+                      key={item.sample.id}
+                      type="button"
+                      onClick={() => onSelectSample(item.sample.id)}
+                      className="flex-shrink-0 w-20 text-left rounded-lg hover:bg-gray-50 p-1"
+                    >
+                      <img src={item.sample.url} alt="Nearest training sample" className="w-full h-16 object-cover rounded-lg" />
+                      <div className="flex items-center space-x-1 mt-1">
+                        <div className={`w-2 h-2 rounded-full flex-shrink-0 ${item.color}`} />
+                        <span className="text-xs text-gray-900 truncate">{item.className}</span>
+                      </div>
+                      <div className="text-xs text-gray-500">類似度 {item.similarity.toFixed(2)}</div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {topPrediction && (
               <div className="mt-6 pt-4 border-t border-gray-200">
-                <div className="text-center">
-                  <div className={`inline-flex items-center px-4 py-2 rounded-full ${getClassColor(topPrediction)} text-white font-medium text-lg`}>
-                    {topPrediction.className}
+                {topPrediction.rejected ? (
+                  <div className="text-center">
+                    <div className="inline-flex items-center px-4 py-2 rounded-full bg-gray-500 text-white font-medium text-lg">
+                      <HelpCircle className="w-5 h-5 mr-2" />
+                      不明（該当なし）
+                    </div>
+                    <div className="text-sm text-gray-500 mt-2">
+                      {REJECTION_REASONS[topPrediction.rejected]}（最も近いクラス: {topPrediction.className} {topPrediction.confidence.toFixed(0)}%）
+                    </div>
                   </div>
-                  <div className="text-sm text-gray-500 mt-2">最も高い信頼度: {topPrediction.confidence.toFixed(0)}%</div>
-                </div>
+                ) : (
+                  <div className="text-center">
+                    <div className={`inline-flex items-center px-4 py-2 rounded-full ${getClassColor(topPrediction)} text-white font-medium text-lg`}>
+                      {topPrediction.className}
+                    </div>
+                    <div className="text-sm text-gray-500 mt-2">最も高い信頼度: {topPrediction.confidence.toFixed(0)}%</div>
+                  </div>
+                )}
               </div>
             )}
           </div>
         )}
       </Card>
+
+      {explainedFrame && (
+        <SaliencyOverlay
+          imageUrl={explainedFrame}
+          outputs={explainOutputs}
+          initialClassIndex={topPrediction?.classIndex ?? 0}
+          onExplain={onExplain}
+          onClose={() => setExplainedFrame(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,111 @@
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
+import { HelpCircle } from 'lucide-react';
+import { OpenSetReference, RejectionConfig } from '@/types/ml-types';
+import { maxDistanceFor } from '@/lib/open-set';
+
+interface RejectionConfigPanelProps {
+  config: RejectionConfig;
+  onChange: (config: RejectionConfig) => void;
+  openSet?: OpenSetReference; // From the current model's training; needed for the distance rule
+}
+
+// Settings for answering "unknown" instead of forcing a trained class; they
+// are saved with the exported model
+export function RejectionConfigPanel({ config, onChange, openSet }: RejectionConfigPanelProps) {
+  const update = <K extends keyof RejectionConfig>(key: K, value: RejectionConfig[K]) => {
+    onChange({ ...config, [key]: value });
+  };
+
+  const maxDistance = maxDistanceFor(config, openSet);
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="flex items-center space-x-2">
+            <HelpCircle className="w-4 h-4 text-gray-600" />
+            <h4 className="font-medium text-gray-900">「不明」の判定</h4>
+          </div>
+          <p className="text-xs text-gray-500">どのクラスにも当てはまらない入力を「不明」として返します</p>
+        </div>
+        <Switch
+          checked={config.enabled}
+          onCheckedChange={(enabled) => update('enabled', enabled)}
+        />
+      </div>
+
+      {config.enabled && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>最低信頼度: {config.minConfidence}%</Label>
+              <Slider
+                value={[config.minConfidence]}
+                min={0}
+                max={100}
+                step={5}
+                onValueChange={([value]) => update('minConfidence', value)}
+              />
+              <p className="text-xs text-gray-500">1位のクラスの信頼度がこれ未満なら不明</p>
+            </div>
+            <div className="space-y-2">
+              <Label>最小マージン: {config.minMargin}ポイント</Label>
+              <Slider
+                value={[config.minMargin]}
+                min={0}
+                max={50}
+                step={1}
+                onValueChange={([value]) => update('minMargin', value)}
+              />
+              <p className="text-xs text-gray-500">1位と2位の信頼度の差がこれ未満なら不明</p>
+            </div>
+          </div>
+
+          <div className="pt-4 border-t border-gray-100 space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>学習画像との距離で判定</Label>
+                <p className="text-xs text-gray-500">
+                  {openSet
+                    ? '特徴ベクトルが各クラスの学習画像の平均から離れすぎていれば不明'
+                    : 'モデルを学習し直すと使えるようになります'}
+                </p>
+              </div>
+              <Switch
+                checked={config.distanceCheck}
+                onCheckedChange={(distanceCheck) => update('distanceCheck', distanceCheck)}
+                disabled={!openSet}
+              />
+            </div>
+
+            {config.distanceCheck && openSet && maxDistance !== undefined && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>最大コサイン距離: {maxDistance.toFixed(3)}</Label>
+                  {config.maxDistance !== undefined && (
+                    <Button variant="ghost" size="sm" onClick={() => update('maxDistance', undefined)}>
+                      自動に戻す
+                    </Button>
+                  )}
+                </div>
+                <Slider
+                  value={[maxDistance]}
+                  min={0}
+                  max={Math.max(1, openSet.calibratedDistance * 2)}
+                  step={0.005}
+                  onValueChange={([value]) => update('maxDistance', value)}
+                />
+                <p className="text-xs text-gray-500">
+                  自動: {openSet.calibratedDistance.toFixed(3)}（学習画像の95%が収まる距離）
+                </p>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
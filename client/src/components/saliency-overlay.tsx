@@ -0,0 +1,128 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RefreshCw } from 'lucide-react';
+import { drawHeatmap, SaliencyMap } from '@/lib/saliency';
+import { loadImage } from '@/lib/ml-utils';
+
+export interface SaliencyClass {
+  id: string;
+  name: string;
+}
+
+interface SaliencyOverlayProps {
+  imageUrl: string;
+  outputs: SaliencyClass[]; // The head's outputs, in output order
+  initialClassIndex: number;
+  onExplain: (image: HTMLImageElement, classIndex: number) => Promise<SaliencyMap>;
+  onClose: () => void;
+}
+
+// Heatmap of the pixels that drive one class's score, over the image. The
+// model only sees the image's center square, so the map covers that area.
+export function SaliencyOverlay({ imageUrl, outputs, initialClassIndex, onExplain, onClose }: SaliencyOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [classIndex, setClassIndex] = useState(initialClassIndex);
+  const [opacity, setOpacity] = useState(0.6);
+  const [saliency, setSaliency] = useState<SaliencyMap | null>(null);
+  const [isComputing, setIsComputing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [run, setRun] = useState(0); // Bumped to recompute; SmoothGrad noise differs each time
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsComputing(true);
+    setError(null);
+    loadImage(imageUrl)
+      .then(image => onExplain(image, classIndex))
+      .then(map => {
+        if (!cancelled) setSaliency(map);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to compute the saliency map');
+      })
+      .finally(() => {
+        if (!cancelled) setIsComputing(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl, classIndex, onExplain, run]);
+
+  useEffect(() => {
+    if (saliency && canvasRef.current) drawHeatmap(saliency, canvasRef.current);
+  }, [saliency]);
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>注目領域</DialogTitle>
+          <DialogDescription>
+            赤い部分ほど、選んだクラスの信頼度を大きく動かす画素です。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="relative rounded-lg overflow-hidden bg-gray-100">
+          <img src={imageUrl} alt="Explained image" className="w-full" />
+          {saliency && (
+            <canvas
+              ref={canvasRef}
+              className="absolute pointer-events-none"
+              style={{
+                opacity,
+                left: `${saliency.area.left * 100}%`,
+                top: `${saliency.area.top * 100}%`,
+                width: `${saliency.area.width * 100}%`,
+                height: `${saliency.area.height * 100}%`
+              }}
+            />
+          )}
+          {isComputing && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black/30 text-white text-sm">
+              計算中...
+            </div>
+          )}
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <Label>クラス</Label>
+            <Select value={String(classIndex)} onValueChange={(value) => setClassIndex(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {outputs.map((output, index) => (
+                  <SelectItem key={output.id} value={String(index)}>{output.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>不透明度: {Math.round(opacity * 100)}%</Label>
+            <Slider
+              value={[opacity]}
+              min={0}
+              max={1}
+              step={0.05}
+              onValueChange={([value]) => setOpacity(value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={onClose}>閉じる</Button>
+          <Button onClick={() => setRun(prev => prev + 1)} disabled={isComputing}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${isComputing ? 'animate-spin' : ''}`} />
+            再計算
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { FolderInput, AlertTriangle, X } from 'lucide-react';
+import { TrainingClass } from '@/types/ml-types';
+import { readTeachableMachineProject, SkippedEntry } from '@/lib/tm-project';
+import { CLASS_COLORS } from '@/lib/model-classes';
+
+interface TmProjectImportProps {
+  onImport: (classes: TrainingClass[]) => void;
+  disabled?: boolean;
+}
+
+// Replaces the classes with those of a project saved from Teachable Machine
+export function TmProjectImport({ onImport, disabled }: TmProjectImportProps) {
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<{ fileName: string; sampleCount: number; skipped: SkippedEntry[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const importFile = async (file: File) => {
+    setIsImporting(true);
+    setError(null);
+    setResult(null);
+    try {
+      const project = await readTeachableMachineProject(file, index => CLASS_COLORS[index % CLASS_COLORS.length]);
+      onImport(project.classes);
+      setResult({
+        fileName: file.name,
+        sampleCount: project.classes.reduce((sum, cls) => sum + cls.samples.length, 0),
+        skipped: project.skipped
+      });
+    } catch (err) {
+      console.error('Error importing Teachable Machine project:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read the project file');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleBrowse = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.tm,.zip';
+    input.onchange = (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (file) importFile(file);
+    };
+    input.click();
+  };
+
+  return (
+    <div className="space-y-2">
+      <Button variant="outline" size="sm" onClick={handleBrowse} disabled={disabled || isImporting}>
+        <FolderInput className="w-4 h-4 mr-2" />
+        {isImporting ? '読み込み中...' : 'Teachable Machine プロジェクト (.tm) を読み込む'}
+      </Button>
+
+      {error && (
+        <p className="text-sm text-red-600">読み込みに失敗しました: {error}</p>
+      )}
+
+      {result && (
+        <div className={`text-sm rounded-lg p-3 border ${
+          result.skipped.length > 0 ? 'bg-amber-50 border-amber-200 text-amber-900' : 'bg-green-50 border-green-200 text-green-900'
+        }`}>
+          <div className="flex items-start justify-between">
+            <p>
+              {result.fileName} から {result.sampleCount} 枚の画像を読み込みました。
+              {result.skipped.length > 0 && ` ${result.skipped.length} 件のエントリはスキップしました。`}
+            </p>
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setResult(null)}>
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+          {result.skipped.length > 0 && (
+            <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto text-xs">
+              {result.skipped.map((entry, index) => (
+                <li key={index} className="flex items-start space-x-2">
+                  <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                  <span><span className="font-mono">{entry.path}</span>: {entry.reason}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
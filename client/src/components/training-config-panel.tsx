@@ -0,0 +1,382 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Settings2 } from 'lucide-react';
+import { TrainingConfig, OptimizerType, EarlyStoppingConfig, EarlyStoppingMetric, CrossValidationConfig, FineTuningConfig, BalancingStrategy } from '@/types/ml-types';
+
+interface TrainingConfigPanelProps {
+  config: TrainingConfig;
+  onChange: (config: TrainingConfig) => void;
+  disabled?: boolean;
+}
+
+const OPTIMIZERS: Array<{ value: OptimizerType; label: string }> = [
+  { value: 'adam', label: 'Adam' },
+  { value: 'sgd', label: 'SGD' },
+  { value: 'rmsprop', label: 'RMSprop' },
+  { value: 'adagrad', label: 'Adagrad' },
+];
+
+const BATCH_SIZES = [8, 16, 32, 64];
+
+const MONITOR_METRICS: Array<{ value: EarlyStoppingMetric; label: string }> = [
+  { value: 'val_loss', label: '検証損失 (val_loss)' },
+  { value: 'val_acc', label: '検証精度 (val_acc)' },
+];
+
+export const BALANCING_STRATEGIES: Array<{ value: BalancingStrategy; label: string }> = [
+  { value: 'none', label: 'なし' },
+  { value: 'classWeights', label: 'クラス重み（少ないクラスの誤りを重視）' },
+  { value: 'oversample', label: 'オーバーサンプリング（少ないクラスを複製）' },
+  { value: 'undersample', label: 'アンダーサンプリング（多いクラスを間引く）' },
+];
+
+function parseHiddenLayers(text: string): number[] {
+  return text
+    .split(',')
+    .map(part => parseInt(part.trim(), 10))
+    .filter(units => Number.isFinite(units) && units > 0);
+}
+
+export function TrainingConfigPanel({ config, onChange, disabled }: TrainingConfigPanelProps) {
+  const [hiddenLayersText, setHiddenLayersText] = useState(config.hiddenLayers.join(', '));
+
+  const update = <K extends keyof TrainingConfig>(key: K, value: TrainingConfig[K]) => {
+    onChange({ ...config, [key]: value });
+  };
+
+  const updateEarlyStopping = (changes: Partial<EarlyStoppingConfig>) => {
+    update('earlyStopping', { ...config.earlyStopping, ...changes });
+  };
+
+  const updateCrossValidation = (changes: Partial<CrossValidationConfig>) => {
+    update('crossValidation', { ...config.crossValidation, ...changes });
+  };
+
+  const updateFineTuning = (changes: Partial<FineTuningConfig>) => {
+    update('fineTuning', { ...config.fineTuning, ...changes });
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex items-center space-x-2">
+        <Settings2 className="w-4 h-4 text-gray-600" />
+        <h4 className="font-medium text-gray-900">学習設定</h4>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div>
+          <Label>オプティマイザ</Label>
+          <Select
+            value={config.optimizer}
+            onValueChange={(value) => update('optimizer', value as OptimizerType)}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {OPTIMIZERS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="learning-rate">学習率</Label>
+          <Input
+            id="learning-rate"
+            type="number"
+            min={0.00001}
+            step={0.0001}
+            value={config.learningRate}
+            onChange={(e) => update('learningRate', Number(e.target.value))}
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <Label>バッチサイズ</Label>
+          <Select
+            value={String(config.batchSize)}
+            onValueChange={(value) => update('batchSize', Number(value))}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BATCH_SIZES.map(size => (
+                <SelectItem key={size} value={String(size)}>{size}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label>検証データの割合: {Math.round(config.validationSplit * 100)}%</Label>
+          <Slider
+            value={[config.validationSplit]}
+            min={0}
+            max={0.5}
+            step={0.05}
+            onValueChange={([value]) => update('validationSplit', value)}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>ドロップアウト: {config.dropout.toFixed(2)}</Label>
+          <Slider
+            value={[config.dropout]}
+            min={0}
+            max={0.8}
+            step={0.05}
+            onValueChange={([value]) => update('dropout', value)}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>ラベルスムージング: {config.labelSmoothing.toFixed(2)}</Label>
+          <Slider
+            value={[config.labelSmoothing]}
+            min={0}
+            max={0.3}
+            step={0.01}
+            onValueChange={([value]) => update('labelSmoothing', value)}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="sm:col-span-2">
+          <Label htmlFor="hidden-layers">隠れ層のユニット数（カンマ区切り、空欄で隠れ層なし）</Label>
+          <Input
+            id="hidden-layers"
+            placeholder="例: 128, 64"
+            value={hiddenLayersText}
+            onChange={(e) => {
+              setHiddenLayersText(e.target.value);
+              update('hiddenLayers', parseHiddenLayers(e.target.value));
+            }}
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <Label htmlFor="split-seed">分割シード</Label>
+          <Input
+            id="split-seed"
+            type="number"
+            value={config.seed}
+            onChange={(e) => update('seed', Math.floor(Number(e.target.value)))}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+      <div>
+        <Label>クラスの不均衡対策</Label>
+        <Select
+          value={config.balancing}
+          onValueChange={(value) => update('balancing', value as BalancingStrategy)}
+          disabled={disabled}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {BALANCING_STRATEGIES.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-xs text-gray-500">
+        検証データはクラスごとに同じ割合で選ばれ、同じシードなら毎回同じ分割になります。
+        画像のピンで特定の画像を常に検証データにできます。
+      </p>
+
+      <div className="pt-4 border-t border-gray-100">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>前回のモデルから続けて学習</Label>
+            <p className="text-xs text-gray-500">
+              画像やクラスを追加したときに、学習済みの重みから再開します。追加したクラスの出力だけが新しく初期化されます。
+              隠れ層の構成を変えた場合や交差検証の各分割は最初から学習します
+            </p>
+          </div>
+          <Switch
+            checked={config.warmStart}
+            onCheckedChange={(warmStart) => update('warmStart', warmStart)}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      <div className="pt-4 border-t border-gray-100 space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>早期終了</Label>
+            <p className="text-xs text-gray-500">改善が止まったら学習を終了し、最も良かったエポックの重みに戻します</p>
+          </div>
+          <Switch
+            checked={config.earlyStopping.enabled}
+            onCheckedChange={(enabled) => updateEarlyStopping({ enabled })}
+            disabled={disabled}
+          />
+        </div>
+        {config.earlyStopping.enabled && (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <Label>監視する指標</Label>
+              <Select
+                value={config.earlyStopping.monitor}
+                onValueChange={(value) => updateEarlyStopping({ monitor: value as EarlyStoppingMetric })}
+                disabled={disabled}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MONITOR_METRICS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="patience">待機エポック数</Label>
+              <Input
+                id="patience"
+                type="number"
+                min={1}
+                value={config.earlyStopping.patience}
+                onChange={(e) => updateEarlyStopping({ patience: Math.max(1, Number(e.target.value)) })}
+                disabled={disabled}
+              />
+            </div>
+            <div>
+              <Label htmlFor="min-delta">最小改善量</Label>
+              <Input
+                id="min-delta"
+                type="number"
+                min={0}
+                step={0.001}
+                value={config.earlyStopping.minDelta}
+                onChange={(e) => updateEarlyStopping({ minDelta: Math.max(0, Number(e.target.value)) })}
+                disabled={disabled}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="pt-4 border-t border-gray-100 space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>交差検証（k分割）</Label>
+            <p className="text-xs text-gray-500">画像が少ないときに、全画像を順番に検証に使って精度を見積もります</p>
+          </div>
+          <Switch
+            checked={config.crossValidation.enabled}
+            onCheckedChange={(enabled) => updateCrossValidation({ enabled })}
+            disabled={disabled}
+          />
+        </div>
+        {config.crossValidation.enabled && (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+            <div>
+              <Label htmlFor="folds">分割数 (k)</Label>
+              <Input
+                id="folds"
+                type="number"
+                min={2}
+                max={10}
+                value={config.crossValidation.folds}
+                onChange={(e) => updateCrossValidation({ folds: Math.min(10, Math.max(2, Math.floor(Number(e.target.value)))) })}
+                disabled={disabled}
+              />
+            </div>
+            <div className="sm:col-span-2 flex items-center justify-between">
+              <Label htmlFor="train-final-model">最後に全画像で使用するモデルを学習</Label>
+              <Switch
+                id="train-final-model"
+                checked={config.crossValidation.trainFinalModel}
+                onCheckedChange={(trainFinalModel) => updateCrossValidation({ trainFinalModel })}
+                disabled={disabled}
+              />
+            </div>
+          </div>
+        )}
+        {config.crossValidation.enabled && (
+          <p className="text-xs text-gray-500">
+            交差検証中は検証データの割合とピンは使われません。学習にかかる時間はおよそ分割数倍になります。
+          </p>
+        )}
+      </div>
+
+      <div className="pt-4 border-t border-gray-100 space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>ファインチューニング</Label>
+            <p className="text-xs text-gray-500">
+              分類層の学習後、ベースモデルの上位層も画像で学習します。ImageNetと大きく異なる画像（顕微鏡写真やスケッチなど）で有効です
+            </p>
+          </div>
+          <Switch
+            checked={config.fineTuning.enabled}
+            onCheckedChange={(enabled) => updateFineTuning({ enabled })}
+            disabled={disabled}
+          />
+        </div>
+        {config.fineTuning.enabled && (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="unfrozen-layers">学習する上位層の数</Label>
+              <Input
+                id="unfrozen-layers"
+                type="number"
+                min={1}
+                value={config.fineTuning.unfrozenLayers}
+                onChange={(e) => updateFineTuning({ unfrozenLayers: Math.max(1, Math.floor(Number(e.target.value))) })}
+                disabled={disabled}
+              />
+            </div>
+            <div>
+              <Label htmlFor="fine-tuning-epochs">エポック数</Label>
+              <Input
+                id="fine-tuning-epochs"
+                type="number"
+                min={1}
+                value={config.fineTuning.epochs}
+                onChange={(e) => updateFineTuning({ epochs: Math.max(1, Math.floor(Number(e.target.value))) })}
+                disabled={disabled}
+              />
+            </div>
+            <div>
+              <Label htmlFor="fine-tuning-learning-rate">学習率</Label>
+              <Input
+                id="fine-tuning-learning-rate"
+                type="number"
+                min={0.000001}
+                step={0.00001}
+                value={config.fineTuning.learningRate}
+                onChange={(e) => updateFineTuning({ learningRate: Number(e.target.value) })}
+                disabled={disabled}
+              />
+            </div>
+          </div>
+        )}
+        {config.fineTuning.enabled && (
+          <p className="text-xs text-gray-500">
+            画像から直接学習するため時間がかかります。学習率は分類層の学習率より十分小さくしてください。
+            交差検証では最後に学習するモデルにのみ適用されます。
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
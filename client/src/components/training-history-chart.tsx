@@ -0,0 +1,94 @@
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { TrendingUp, Flag } from 'lucide-react';
+import { TrainingHistoryEntry, TrainingProgress, EarlyStoppingConfig } from '@/types/ml-types';
+
+interface TrainingHistoryChartProps {
+  history: TrainingHistoryEntry[];
+  progress: TrainingProgress | null;
+  earlyStopping: EarlyStoppingConfig;
+}
+
+export function TrainingHistoryChart({ history, progress, earlyStopping }: TrainingHistoryChartProps) {
+  if (history.length === 0) return null;
+
+  const bestEpoch = progress?.bestEpoch;
+  const hasValidation = history.some(entry => entry.valLoss !== undefined);
+  const fineTuningStart = history.find(entry => entry.phase === 'fine_tune')?.epoch;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex items-center space-x-2">
+        <TrendingUp className="w-4 h-4 text-gray-600" />
+        <h4 className="font-medium text-gray-900">
+          学習履歴
+          {progress?.fold !== undefined && `（交差検証 分割 ${progress.fold}/${progress.totalFolds}）`}
+          {progress?.phase === 'fine_tune' && !progress.stopReason && '（ファインチューニング中）'}
+        </h4>
+      </div>
+
+      {progress?.stopReason && (
+        <div className={`flex items-start space-x-2 text-sm rounded-lg p-3 ${
+          progress.stopReason !== 'completed'
+            ? 'bg-amber-50 text-amber-900 border border-amber-200'
+            : 'bg-gray-50 text-gray-700 border border-gray-200'
+        }`}>
+          <Flag className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <p>
+            {progress.stopReason === 'early_stopping' &&
+              `エポック ${progress.stoppedAtEpoch} で早期終了しました（${earlyStopping.monitor} が ${earlyStopping.patience} エポック改善しなかったため）。`}
+            {progress.stopReason === 'completed' && `全 ${progress.stoppedAtEpoch} エポックの学習が完了しました。`}
+            {progress.stopReason === 'cancelled' && `エポック ${progress.stoppedAtEpoch} で中止しました。`}
+            {progress.stopReason === 'cancelled' && bestEpoch === undefined && ' 以前のモデルをそのまま使用しています。'}
+            {fineTuningStart !== undefined && ` エポック ${fineTuningStart} からファインチューニングしました。`}
+            {bestEpoch !== undefined && ` エポック ${bestEpoch} の重みを使用しています。`}
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="h-48">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={history}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="epoch" />
+              <YAxis />
+              <Tooltip formatter={(value: number) => value.toFixed(4)} />
+              <Legend />
+              <Line type="monotone" dataKey="loss" name="損失" stroke="#ef4444" dot={false} />
+              {hasValidation && (
+                <Line type="monotone" dataKey="valLoss" name="検証損失" stroke="#f97316" strokeDasharray="4 2" dot={false} />
+              )}
+              {fineTuningStart !== undefined && (
+                <ReferenceLine x={fineTuningStart} stroke="#6b7280" strokeDasharray="2 2" label={{ value: 'Fine-tune', position: 'insideTopLeft', fill: '#6b7280' }} />
+              )}
+              {bestEpoch !== undefined && (
+                <ReferenceLine x={bestEpoch} stroke="#16a34a" label={{ value: 'Best', position: 'top', fill: '#16a34a' }} />
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="h-48">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={history}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="epoch" />
+              <YAxis domain={[0, 100]} />
+              <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+              <Legend />
+              <Line type="monotone" dataKey="accuracy" name="精度" stroke="#3b82f6" dot={false} />
+              {hasValidation && (
+                <Line type="monotone" dataKey="valAccuracy" name="検証精度" stroke="#8b5cf6" strokeDasharray="4 2" dot={false} />
+              )}
+              {fineTuningStart !== undefined && (
+                <ReferenceLine x={fineTuningStart} stroke="#6b7280" strokeDasharray="2 2" label={{ value: 'Fine-tune', position: 'insideTopLeft', fill: '#6b7280' }} />
+              )}
+              {bestEpoch !== undefined && (
+                <ReferenceLine x={bestEpoch} stroke="#16a34a" label={{ value: 'Best', position: 'top', fill: '#16a34a' }} />
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+}
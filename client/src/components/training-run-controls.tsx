@@ -0,0 +1,48 @@
+import { Pause, Play, Square, Trophy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { TrainingStatus } from '@/types/ml-types';
+
+interface TrainingRunControlsProps {
+  trainingStatus: TrainingStatus;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: (keepBestWeights: boolean) => void;
+}
+
+// Pause, resume and cancel take effect at the end of the running epoch
+export function TrainingRunControls({ trainingStatus, onPause, onResume, onCancel }: TrainingRunControlsProps) {
+  if (trainingStatus !== 'training' && trainingStatus !== 'paused') return null;
+
+  const isPaused = trainingStatus === 'paused';
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <p className="text-sm text-gray-600">
+        {isPaused
+          ? '一時停止中です。再開するか、ここまでの結果で中止できます。'
+          : '学習中です。現在のエポックが終わった時点で一時停止・中止します。'}
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {isPaused ? (
+          <Button variant="outline" size="sm" onClick={onResume}>
+            <Play className="w-4 h-4 mr-2" />
+            再開
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm" onClick={onPause}>
+            <Pause className="w-4 h-4 mr-2" />
+            一時停止
+          </Button>
+        )}
+        <Button variant="outline" size="sm" onClick={() => onCancel(false)}>
+          <Square className="w-4 h-4 mr-2" />
+          中止（前のモデルを維持）
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => onCancel(true)}>
+          <Trophy className="w-4 h-4 mr-2" />
+          中止して最良の重みを使う
+        </Button>
+      </div>
+    </div>
+  );
+}
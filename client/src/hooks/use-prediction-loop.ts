@@ -0,0 +1,97 @@
+import { useState, useRef, useEffect, RefObject } from 'react';
+import { Prediction } from '@/types/ml-types';
+import { createPredictionSmoother, SmoothingConfig } from '@/lib/prediction-smoothing';
+import { NearestSample } from '@/lib/nearest-samples';
+
+// One video frame's predictions and the training samples nearest to it
+export interface PredictionFrame {
+  predictions: Prediction[];
+  nearest: NearestSample[];
+}
+
+interface UsePredictionLoopProps {
+  videoRef: RefObject<HTMLVideoElement>;
+  predict: (video: HTMLVideoElement) => Promise<PredictionFrame>;
+  enabled: boolean;
+  targetFps: number;
+  smoothing: SmoothingConfig;
+}
+
+export interface PredictionLoopStats {
+  fps: number; // Predictions completed per second
+  latency: number; // Milliseconds per prediction, averaged
+  skippedFrames: number; // Video frames dropped because a prediction was still running
+}
+
+const EMPTY_STATS: PredictionLoopStats = { fps: 0, latency: 0, skippedFrames: 0 };
+
+// Predicts on the video at up to targetFps with requestAnimationFrame. Only
+// one prediction runs at a time; frames arriving meanwhile are skipped, so a
+// slow model lowers the rate instead of queueing work.
+export function usePredictionLoop({ videoRef, predict, enabled, targetFps, smoothing }: UsePredictionLoopProps) {
+  const [predictions, setPredictions] = useState<Prediction[]>([]);
+  const [nearest, setNearest] = useState<NearestSample[]>([]);
+  const [stats, setStats] = useState<PredictionLoopStats>(EMPTY_STATS);
+
+  // The loop reads the latest callback and rate without restarting
+  const predictRef = useRef(predict);
+  predictRef.current = predict;
+  const intervalRef = useRef(1000 / targetFps);
+  intervalRef.current = 1000 / targetFps;
+
+  useEffect(() => {
+    if (!enabled) {
+      setPredictions([]);
+      setNearest([]);
+      setStats(EMPTY_STATS);
+      return;
+    }
+
+    const smoother = createPredictionSmoother(smoothing);
+    let frameId = 0;
+    let stopped = false;
+    let inFlight = false;
+    let lastStart = 0;
+    let latency = 0;
+    let skippedFrames = 0;
+    let completed: number[] = []; // Finish times within the last second
+
+    const loop = (now: number) => {
+      if (stopped) return;
+      frameId = requestAnimationFrame(loop);
+
+      const video = videoRef.current;
+      if (!video || video.readyState < 2 || now - lastStart < intervalRef.current) return;
+      if (inFlight) {
+        skippedFrames++;
+        return;
+      }
+
+      inFlight = true;
+      lastStart = now;
+      predictRef.current(video)
+        .then(frame => {
+          if (stopped) return;
+          const finished = performance.now();
+          latency = latency === 0 ? finished - now : latency * 0.8 + (finished - now) * 0.2;
+          completed = [...completed.filter(time => finished - time < 1000), finished];
+          setPredictions(smoother.update(frame.predictions));
+          // Not smoothed: the samples belong to the latest frame
+          setNearest(frame.nearest);
+          setStats({ fps: completed.length, latency, skippedFrames });
+        })
+        .catch(err => console.error('Live prediction error:', err))
+        .finally(() => {
+          inFlight = false;
+        });
+    };
+    frameId = requestAnimationFrame(loop);
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frameId);
+    };
+  }, [enabled, smoothing, videoRef]);
+
+  return { predictions, nearest, stats };
+}
@@ -1,15 +1,78 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import * as tf from '@tensorflow/tfjs';
-import { TrainingClass, TrainingProgress, Prediction, MLModel, TrainingStatus } from '@/types/ml-types';
-import { loadMobileNet, createTransferModel, trainModel, predict } from '@/lib/ml-utils';
+import {
+  TrainingClass,
+  TrainingProgress,
+  Prediction,
+  MLModel,
+  TrainingStatus,
+  ImageSample,
+  BaseModelSpec,
+  BaseModelSource,
+  TrainingConfig,
+  TrainingHistoryEntry,
+  CrossValidationReport,
+  RejectionConfig
+} from '@/types/ml-types';
+import {
+  loadBaseModel as fetchBaseModel,
+  loadCustomBaseModel as readCustomBaseModel,
+  createFeatureExtractor,
+  composeTransferModel,
+  disposeTransferModel,
+  extractFeatures,
+  createModelMetadata,
+  splitTransferModel,
+  cloneLayersModel,
+  downloadBlob
+} from '@/lib/ml-utils';
+import { createTeachableMachineZip, readExportedModel } from '@/lib/model-export';
+import { createStandaloneAppZip } from '@/lib/standalone-app';
+import { computeSaliency, SaliencyMap } from '@/lib/saliency';
+import { createTrainingEngine, sampleBlob, TrainingEngine } from '@/lib/training-engine';
+import { WorkerSample } from '@/workers/training-protocol';
+import { snapshotClasses, outputClasses, outputMapFor, restoreClasses } from '@/lib/model-classes';
+import { DEFAULT_REJECTION_CONFIG, applyRejection, nearestCentroidDistance, maxDistanceFor } from '@/lib/open-set';
 
 export function useTensorFlow() {
   const [isInitialized, setIsInitialized] = useState(false);
   const [model, setModel] = useState<MLModel>({ model: null, isReady: false });
   const [trainingStatus, setTrainingStatus] = useState<TrainingStatus>('idle');
   const [trainingProgress, setTrainingProgress] = useState<TrainingProgress | null>(null);
-  const [trainingHistory, setTrainingHistory] = useState<Array<{ epoch: number; loss: number; accuracy: number; }>>([]);
+  const [trainingHistory, setTrainingHistory] = useState<TrainingHistoryEntry[]>([]);
+  const [crossValidationReport, setCrossValidationReport] = useState<CrossValidationReport | null>(null);
+  // Samples the last run left out because they could not be embedded
+  const [skippedSampleIds, setSkippedSampleIds] = useState<string[]>([]);
+  const [rejectionConfig, setRejectionConfig] = useState<RejectionConfig>(DEFAULT_REJECTION_CONFIG);
   const [error, setError] = useState<string | null>(null);
+  // Embedding and training run in a worker; the main thread only predicts
+  const engineRef = useRef<TrainingEngine | null>(null);
+  // Replaced models are freed once React has committed the new state: state
+  // updaters may run twice, and disposing a LayersModel twice throws
+  const committedModelRef = useRef(model);
+
+  useEffect(() => {
+    const previous = committedModelRef.current;
+    committedModelRef.current = model;
+    if (previous.head && previous.head !== model.head) {
+      disposeTransferModel(
+        { featureExtractor: previous.tunedFeatureExtractor ?? previous.featureExtractor, head: previous.head, model: previous.model },
+        previous.tunedBaseModel
+      );
+    }
+    if (previous.baseModel && previous.baseModel !== model.baseModel) {
+      previous.baseModel.dispose();
+    }
+  }, [model]);
+
+  useEffect(() => {
+    const engine = createTrainingEngine();
+    engineRef.current = engine;
+    return () => {
+      engineRef.current = null;
+      engine.terminate();
+    };
+  }, []);
 
   // Initialize TensorFlow.js
   useEffect(() => {
@@ -36,15 +99,39 @@ export function useTensorFlow() {
     initTensorFlow();
   }, []);
 
+  // Swap in a new base model. The old head was trained on another backbone's
+  // features, so it is discarded together with the old weights; an imported
+  // model brings its own trained head instead.
+  const applyBaseModel = useCallback((
+    baseModel: tf.LayersModel,
+    spec: BaseModelSpec,
+    source: BaseModelSource,
+    trained?: Required<Pick<MLModel, 'head' | 'trainedClasses'>> & Pick<MLModel, 'training'>
+  ) => {
+    const featureExtractor = createFeatureExtractor(baseModel, spec.featureLayer);
+    engineRef.current?.loadBaseModel(baseModel, spec).catch(err => {
+      console.error('Failed to hand the base model to the training worker:', err);
+    });
+    setModel({
+      model: trained ? composeTransferModel(featureExtractor, trained.head).model : null,
+      isReady: !!trained,
+      baseModel,
+      baseModelSpec: spec,
+      baseModelSource: source,
+      featureExtractor,
+      ...trained
+    });
+  }, []);
+
   // Load base model
-  const loadBaseModel = useCallback(async () => {
+  const loadBaseModel = useCallback(async (spec: BaseModelSpec) => {
     if (!isInitialized) return;
 
     try {
       setError(null);
-      const baseModel = await loadMobileNet();
+      const { model: baseModel, source } = await fetchBaseModel(spec);
       if (baseModel) {
-        setModel(prev => ({ ...prev, baseModel }));
+        applyBaseModel(baseModel, spec, source);
       } else {
         throw new Error('Failed to load base model');
       }
@@ -52,32 +139,103 @@ export function useTensorFlow() {
       console.error('Error loading base model:', err);
       setError('Failed to load base model. Please refresh and try again.');
     }
-  }, [isInitialized]);
+  }, [isInitialized, applyBaseModel]);
 
-  // Create training model
-  const createModel = useCallback(async (classes: TrainingClass[]) => {
-    if (!model.baseModel || classes.length < 2) {
-      setError('Need at least 2 classes and a loaded base model');
-      return;
+  // Load a user-uploaded LayersModel (model.json + weight files) as base model
+  const loadCustomBaseModel = useCallback(async (files: File[], spec: BaseModelSpec) => {
+    if (!isInitialized) return;
+
+    try {
+      setError(null);
+      const baseModel = await readCustomBaseModel(files);
+      applyBaseModel(baseModel, { ...spec, custom: true }, 'upload');
+    } catch (err) {
+      console.error('Error loading custom base model:', err);
+      setError('Failed to load the uploaded base model. Check model.json and weight files.');
     }
+  }, [isInitialized, applyBaseModel]);
+
+  // Load a model saved by exportModel. Its backbone becomes the base model, so
+  // it predicts right away and can be trained further. Resolves to the classes
+  // for its outputs and the base model spec to select.
+  const importModel = useCallback(async (
+    files: File[],
+    classes: TrainingClass[]
+  ): Promise<{ classes: TrainingClass[]; spec: BaseModelSpec } | null> => {
+    if (!isInitialized) return null;
 
+    let imported: tf.LayersModel | undefined;
     try {
       setError(null);
-      const transferModel = createTransferModel(model.baseModel, classes.length);
-      setModel(prev => ({
-        ...prev,
-        model: transferModel,
-        isReady: false
-      }));
+      const { model: loaded, metadata } = await readExportedModel(files);
+      imported = loaded;
+      const parts = splitTransferModel(loaded);
+      if (!parts) {
+        throw new Error('The model was not exported from this app');
+      }
+
+      const outputCount = parts.head.outputs[0].shape[1] as number;
+      const labels = metadata?.labels ?? Array.from({ length: outputCount }, (_, index) => `Class ${index + 1}`);
+      if (labels.length !== outputCount) {
+        throw new Error(`The model has ${outputCount} outputs but its metadata lists ${labels.length} classes`);
+      }
+      // Without metadata the preprocessing of the loaded base model is assumed
+      const spec = metadata?.baseModel ?? model.baseModelSpec;
+      if (!spec) {
+        throw new Error('Add the metadata file or load a base model first');
+      }
+
+      // Standalone copies; the nested originals are tied to the loaded graph
+      const featureExtractor = await cloneLayersModel(parts.featureExtractor);
+      const head = await cloneLayersModel(parts.head);
+      loaded.dispose();
+      imported = undefined;
+
+      const originalId = spec.id.replace(/^imported:/, '');
+      const importedSpec: BaseModelSpec = {
+        ...spec,
+        id: `imported:${originalId}`,
+        name: `${spec.name.replace(/（インポート）$/, '')}（インポート）`,
+        inputSize: featureExtractor.inputs[0].shape[1] as number,
+        featureLayer: featureExtractor.layers[featureExtractor.layers.length - 1].name,
+        remoteUrl: undefined,
+        custom: true
+      };
+      const restored = restoreClasses(
+        labels.map((name, index) => ({ name, color: metadata?.colors?.[index] ?? 'bg-gray-500' })),
+        classes
+      );
+
+      applyBaseModel(featureExtractor, importedSpec, 'upload', {
+        head,
+        trainedClasses: snapshotClasses(restored),
+        training: metadata?.training
+      });
+      // The previous model's rules don't apply to this one
+      setRejectionConfig(metadata?.rejection ?? DEFAULT_REJECTION_CONFIG);
+      return { classes: restored, spec: importedSpec };
     } catch (err) {
-      console.error('Error creating model:', err);
-      setError('Failed to create training model');
+      console.error('Error importing model:', err);
+      imported?.dispose();
+      setError(`Failed to import the model. ${err instanceof Error ? err.message : ''}`.trim());
+      return null;
     }
-  }, [model.baseModel]);
+  }, [isInitialized, model.baseModelSpec, applyBaseModel]);
+
+  // Compute base model embeddings for samples that don't have one yet.
+  // Samples that fail to decode are missing from the map; rejects when
+  // nothing can be embedded, e.g. without a base model in the worker.
+  const embedSamples = useCallback(async (samples: ImageSample[]): Promise<Map<string, number[]>> => {
+    if (samples.length === 0) return new Map();
+    if (!model.featureExtractor || !model.baseModelSpec || !engineRef.current) {
+      throw new Error('No base model loaded');
+    }
+    return engineRef.current.embed(samples);
+  }, [model.featureExtractor, model.baseModelSpec]);
 
   // Train model
-  const startTraining = useCallback(async (classes: TrainingClass[], epochs: number = 20) => {
-    if (!model.model || classes.length < 2) {
+  const startTraining = useCallback(async (classes: TrainingClass[], config: TrainingConfig) => {
+    if (!model.featureExtractor || !model.baseModelSpec || classes.length < 2) {
       setError('Model not ready or insufficient classes');
       return;
     }
@@ -89,94 +247,153 @@ export function useTensorFlow() {
       return;
     }
 
+    const sampleCount = classes.reduce((sum, cls) => sum + cls.samples.length, 0);
+    if (config.crossValidation.enabled && sampleCount < config.crossValidation.folds) {
+      setError(`Cross-validation with ${config.crossValidation.folds} folds needs at least ${config.crossValidation.folds} samples`);
+      return;
+    }
+
+    const engine = engineRef.current;
+    if (!engine) {
+      setError('Training engine is not available');
+      return;
+    }
+
     try {
       setTrainingStatus('training');
       setError(null);
       setTrainingHistory([]); // Reset training history
+      setCrossValidationReport(null);
+      setSkippedSampleIds([]);
       
-      // Prepare training data
-      const allImages: HTMLImageElement[] = [];
-      const allLabels: number[] = [];
-      
-      for (let classIndex = 0; classIndex < classes.length; classIndex++) {
-        const classData = classes[classIndex];
-        for (const sample of classData.samples) {
-          const img = new Image();
-          img.src = sample.url;
-          await new Promise((resolve) => {
-            img.onload = resolve;
-          });
-          allImages.push(img);
-          allLabels.push(classIndex);
-        }
-      }
+      // Cached embeddings spare the worker a forward pass; images are only
+      // sent when it has to embed, augment or fine-tune
+      const spec = model.baseModelSpec;
+      const hasEmbedding = (sample: ImageSample) => !!sample.embedding && sample.embeddingBaseModel === spec.id;
+      const needsImages = (config.augmentation.enabled && config.augmentation.copiesPerSample > 0) ||
+        config.fineTuning.enabled;
 
-      // Convert to tensors
-      const xs = tf.stack(allImages.map(img => {
-        return tf.tidy(() => {
-          const tensor = tf.browser.fromPixels(img);
-          const resized = tf.image.resizeBilinear(tensor, [224, 224]);
-          const normalized = resized.cast('float32').div(255.0);
-          return normalized;
-        });
-      }));
+      const samples: WorkerSample[] = await Promise.all(classes.flatMap((classData, classIndex) =>
+        classData.samples.map(async sample => ({
+          id: sample.id,
+          label: classIndex,
+          pinnedToValidation: sample.pinnedToValidation,
+          embedding: hasEmbedding(sample) ? sample.embedding : undefined,
+          blob: needsImages || !hasEmbedding(sample) ? await sampleBlob(sample) : undefined
+        }))
+      ));
 
-      const ys = tf.oneHot(tf.tensor1d(allLabels, 'int32'), classes.length);
-
-      const startTime = Date.now();
-
-      await trainModel(
-        model.model,
-        { xs, ys },
-        epochs,
-        (epoch, loss, accuracy) => {
-          const timeElapsed = Date.now() - startTime;
-          const currentProgress = {
-            epoch: epoch + 1,
-            totalEpochs: epochs,
-            accuracy: (accuracy || 0) * 100,
-            loss,
-            samplesProcessed: allImages.length,
-            timeElapsed: Math.floor(timeElapsed / 1000)
-          };
-          
-          setTrainingProgress(currentProgress);
-          
-          // Add to training history
-          setTrainingHistory(prev => [...prev, {
-            epoch: epoch + 1,
-            loss,
-            accuracy: (accuracy || 0) * 100
-          }]);
+      // Continue from the current head; outputs are matched to classes by id
+      const outputMap = model.trainedClasses ? outputMapFor(model.trainedClasses, classes) : [];
+      const warmStart = config.warmStart && model.head && outputMap.some(index => index !== null)
+        ? { head: model.head, outputMap }
+        : undefined;
+
+      const result = await engine.train(samples, classes.map(cls => cls.name), config, {
+        onEpochEnd: (progress, entry) => {
+          setTrainingProgress(progress);
+          setTrainingHistory(prev => [...prev, entry]);
+        },
+        onFoldStart: () => setTrainingHistory([]),
+        onCrossValidation: report => {
+          setCrossValidationReport(report);
+          setTrainingHistory([]);
         }
-      );
+      }, warmStart);
 
-      // Cleanup tensors
-      xs.dispose();
-      ys.dispose();
+      if (result.progress) {
+        setTrainingProgress(result.progress);
+      }
+      setSkippedSampleIds(result.skippedSampleIds);
 
-      setModel(prev => ({ ...prev, isReady: true }));
-      setTrainingStatus('completed');
+      // Estimation-only cross-validation and discarded runs leave the current model as it is
+      if (result.trained) {
+        const { head, tunedBaseModel, record } = result.trained;
+        const transferModel = composeTransferModel(
+          tunedBaseModel ? createFeatureExtractor(tunedBaseModel, spec.featureLayer) : model.featureExtractor,
+          head
+        );
+
+        setModel(prev => ({
+          ...prev,
+          model: transferModel.model,
+          head: transferModel.head,
+          tunedBaseModel,
+          tunedFeatureExtractor: tunedBaseModel ? transferModel.featureExtractor : undefined,
+          trainedClasses: snapshotClasses(classes),
+          trainedSampleIds: samples.map(sample => sample.id),
+          isReady: true,
+          training: record
+        }));
+      }
+      setTrainingStatus(result.cancelled ? 'cancelled' : 'completed');
     } catch (err) {
       console.error('Training error:', err);
-      setError('Training failed. Please check your data and try again.');
+      setError(`Training failed. ${err instanceof Error ? err.message : 'Please check your data and try again.'}`);
       setTrainingStatus('error');
     }
-  }, [model.model]);
+  }, [model.featureExtractor, model.baseModelSpec, model.head, model.trainedClasses]);
 
-  // Make predictions
-  const makePrediction = useCallback(async (imageElement: HTMLImageElement | HTMLVideoElement | HTMLCanvasElement, classes: TrainingClass[]): Promise<Prediction[]> => {
-    if (!model.model || !model.isReady) {
+  // Pausing takes effect at the end of the running epoch
+  const pauseTraining = useCallback(() => {
+    engineRef.current?.pause();
+    setTrainingStatus(prev => prev === 'training' ? 'paused' : prev);
+  }, []);
+
+  const resumeTraining = useCallback(() => {
+    engineRef.current?.resume();
+    setTrainingStatus(prev => prev === 'paused' ? 'training' : prev);
+  }, []);
+
+  // The run stops after its current epoch; startTraining settles the status
+  const cancelTraining = useCallback((keepBestWeights: boolean) => {
+    engineRef.current?.cancel(keepBestWeights);
+  }, []);
+
+  // Predicts on the image. With `withEmbedding` it also returns the image's
+  // base model embedding from the same forward pass, to compare with the
+  // samples' cached ones; a fine-tuned backbone needs a second pass through
+  // the frozen one for that.
+  const predictImage = useCallback(async (
+    imageElement: HTMLImageElement | HTMLVideoElement | HTMLCanvasElement,
+    classes: TrainingClass[],
+    withEmbedding: boolean
+  ): Promise<{ predictions: Prediction[]; embedding?: number[] }> => {
+    if (!model.head || !model.featureExtractor || !model.baseModelSpec || !model.isReady) {
       throw new Error('Model not ready for predictions');
     }
 
     try {
-      const prediction = predict(model.model, imageElement);
-      const predictionData = await prediction.data();
-      prediction.dispose();
+      const featureExtractor = model.tunedFeatureExtractor ?? model.featureExtractor;
+      const features = extractFeatures(featureExtractor, imageElement, model.baseModelSpec);
+      // Extracted right away, so a video yields the same frame for both
+      const baseFeatures = withEmbedding && model.tunedFeatureExtractor
+        ? extractFeatures(model.featureExtractor, imageElement, model.baseModelSpec)
+        : undefined;
+      let predictionData: Float32Array | Int32Array | Uint8Array;
+      let featureData: number[] | undefined;
+      let embedding: number[] | undefined;
+      const openSet = model.training?.openSet;
+      const checksDistance = rejectionConfig.enabled && rejectionConfig.distanceCheck && !!openSet;
+      try {
+        const prediction = tf.tidy(() => model.head.predict(features) as tf.Tensor);
+        predictionData = await prediction.data().finally(() => prediction.dispose());
+        // Features are only read back when the distance rule or the caller needs them
+        featureData = checksDistance || (withEmbedding && !baseFeatures)
+          ? Array.from(await features.data())
+          : undefined;
+        embedding = baseFeatures ? Array.from(await baseFeatures.data()) : withEmbedding ? featureData : undefined;
+      } finally {
+        features.dispose();
+        baseFeatures?.dispose();
+      }
 
+      // Outputs follow the classes the head was trained on, not the current list
+      const outputs = outputClasses(model.trainedClasses ?? snapshotClasses(classes), classes);
       const predictions: Prediction[] = Array.from(predictionData).map((confidence, index) => ({
-        className: classes[index]?.name || `Class ${index + 1}`,
+        className: outputs[index]
+          ? `${outputs[index].name}${outputs[index].removed ? '（削除済み）' : ''}`
+          : `Class ${index + 1}`,
         confidence: confidence * 100,
         classIndex: index
       }));
@@ -184,27 +401,109 @@ export function useTensorFlow() {
       // Sort by confidence
       predictions.sort((a, b) => b.confidence - a.confidence);
 
-      return predictions;
+      return {
+        predictions: applyRejection(predictions, rejectionConfig, checksDistance && featureData && openSet ? {
+          value: nearestCentroidDistance(featureData, openSet),
+          max: maxDistanceFor(rejectionConfig, openSet)
+        } : undefined),
+        embedding
+      };
     } catch (err) {
       console.error('Prediction error:', err);
       throw new Error('Failed to make prediction');
     }
-  }, [model.model, model.isReady]);
+  }, [model.featureExtractor, model.tunedFeatureExtractor, model.head, model.baseModelSpec, model.isReady, model.trainedClasses, model.training, rejectionConfig]);
 
-  // Export model
-  const exportModel = useCallback(async () => {
-    if (!model.model || !model.isReady) {
+  // Make predictions
+  const makePrediction = useCallback(async (imageElement: HTMLImageElement | HTMLVideoElement | HTMLCanvasElement, classes: TrainingClass[]): Promise<Prediction[]> => {
+    return (await predictImage(imageElement, classes, false)).predictions;
+  }, [predictImage]);
+
+  // Predictions plus the base model embedding of the same image
+  const predictWithEmbedding = useCallback(async (imageElement: HTMLImageElement | HTMLVideoElement | HTMLCanvasElement, classes: TrainingClass[]) => {
+    const { predictions, embedding } = await predictImage(imageElement, classes, true);
+    return { predictions, embedding: embedding as number[] };
+  }, [predictImage]);
+
+  // Saliency map of one output class over the image
+  const explainPrediction = useCallback(async (imageElement: HTMLImageElement | HTMLVideoElement | HTMLCanvasElement, classIndex: number): Promise<SaliencyMap> => {
+    if (!model.head || !model.featureExtractor || !model.baseModelSpec || !model.isReady) {
+      throw new Error('Model not ready for predictions');
+    }
+
+    const pixels = tf.browser.fromPixels(imageElement);
+    try {
+      return await computeSaliency(
+        model.tunedFeatureExtractor ?? model.featureExtractor,
+        model.head,
+        pixels,
+        model.baseModelSpec,
+        classIndex
+      );
+    } catch (err) {
+      console.error('Saliency error:', err);
+      throw new Error('Failed to compute the saliency map');
+    } finally {
+      pixels.dispose();
+    }
+  }, [model.featureExtractor, model.tunedFeatureExtractor, model.head, model.baseModelSpec, model.isReady]);
+
+  // Export model as a Teachable Machine zip; labels follow the head's outputs
+  const exportModel = useCallback(async (classes: TrainingClass[]) => {
+    if (!model.head || !model.featureExtractor || !model.baseModelSpec || !model.isReady) {
       setError('No trained model to export');
       return;
     }
 
     try {
-      await model.model.save('downloads://teachable-machine-model');
+      // Records the backbone so the model is always run with its own preprocessing
+      const metadata = createModelMetadata(
+        outputClasses(model.trainedClasses ?? snapshotClasses(classes), classes),
+        model.baseModelSpec,
+        model.training,
+        rejectionConfig
+      );
+      const zip = await createTeachableMachineZip(
+        model.tunedFeatureExtractor ?? model.featureExtractor,
+        model.head,
+        model.baseModelSpec,
+        metadata,
+        'teachable-machine-model'
+      );
+      downloadBlob('teachable-machine-model.zip', zip);
     } catch (err) {
       console.error('Export error:', err);
       setError('Failed to export model');
     }
-  }, [model.model, model.isReady]);
+  }, [model.head, model.featureExtractor, model.tunedFeatureExtractor, model.baseModelSpec, model.training, model.trainedClasses, model.isReady, rejectionConfig]);
+
+  // Export a static web page that runs the model on the webcam
+  const exportStandaloneApp = useCallback(async (classes: TrainingClass[]) => {
+    if (!model.head || !model.featureExtractor || !model.baseModelSpec || !model.isReady) {
+      setError('No trained model to export');
+      return;
+    }
+
+    try {
+      const metadata = createModelMetadata(
+        outputClasses(model.trainedClasses ?? snapshotClasses(classes), classes),
+        model.baseModelSpec,
+        model.training,
+        rejectionConfig
+      );
+      const zip = await createStandaloneAppZip(
+        model.tunedFeatureExtractor ?? model.featureExtractor,
+        model.head,
+        model.baseModelSpec,
+        metadata,
+        'Teachable Machine ライブ予測'
+      );
+      downloadBlob('teachable-machine-app.zip', zip);
+    } catch (err) {
+      console.error('Standalone app export error:', err);
+      setError('Failed to export the standalone app');
+    }
+  }, [model.head, model.featureExtractor, model.tunedFeatureExtractor, model.baseModelSpec, model.training, model.trainedClasses, model.isReady, rejectionConfig]);
 
   return {
     isInitialized,
@@ -212,12 +511,24 @@ export function useTensorFlow() {
     trainingStatus,
     trainingProgress,
     trainingHistory,
+    crossValidationReport,
+    skippedSampleIds,
+    rejectionConfig,
+    setRejectionConfig,
     error,
     loadBaseModel,
-    createModel,
+    loadCustomBaseModel,
+    importModel,
+    embedSamples,
     startTraining,
+    pauseTraining,
+    resumeTraining,
+    cancelTraining,
     makePrediction,
+    predictWithEmbedding,
+    explainPrediction,
     exportModel,
+    exportStandaloneApp,
     clearError: () => setError(null)
   };
 }
@@ -0,0 +1,62 @@
+import * as tf from '@tensorflow/tfjs';
+import { AugmentationConfig } from '@/types/ml-types';
+
+export const DEFAULT_AUGMENTATION_CONFIG: AugmentationConfig = {
+  enabled: false,
+  copiesPerSample: 4,
+  flip: { probability: 0.5 },
+  crop: { probability: 0.5, minScale: 0.8 },
+  rotation: { probability: 0.3, maxDegrees: 15 },
+  brightness: { probability: 0.5, maxDelta: 0.2 },
+  contrast: { probability: 0.3, maxDelta: 0.2 },
+  noise: { probability: 0.2, stddev: 0.03 },
+};
+
+function uniform(random: () => number, min: number, max: number): number {
+  return min + random() * (max - min);
+}
+
+// Returns a randomly transformed copy of a [height, width, 3] image in the [0, 255] range
+export function augmentImage(
+  image: tf.Tensor3D,
+  config: AugmentationConfig,
+  random: () => number = Math.random
+): tf.Tensor3D {
+  return tf.tidy(() => {
+    const [height, width] = image.shape;
+    let batch = image.cast('float32').expandDims(0) as tf.Tensor4D;
+
+    if (random() < config.flip.probability) {
+      batch = tf.image.flipLeftRight(batch);
+    }
+
+    if (random() < config.crop.probability) {
+      const scale = uniform(random, config.crop.minScale, 1);
+      const top = random() * (1 - scale);
+      const left = random() * (1 - scale);
+      batch = tf.image.cropAndResize(batch, [[top, left, top + scale, left + scale]], [0], [height, width]);
+    }
+
+    if (random() < config.rotation.probability) {
+      const radians = uniform(random, -config.rotation.maxDegrees, config.rotation.maxDegrees) * Math.PI / 180;
+      batch = tf.image.rotateWithOffset(batch, radians, 0);
+    }
+
+    if (random() < config.brightness.probability) {
+      const delta = uniform(random, -config.brightness.maxDelta, config.brightness.maxDelta);
+      batch = batch.add(delta * 255);
+    }
+
+    if (random() < config.contrast.probability) {
+      const factor = 1 + uniform(random, -config.contrast.maxDelta, config.contrast.maxDelta);
+      const mean = batch.mean();
+      batch = batch.sub(mean).mul(factor).add(mean);
+    }
+
+    if (random() < config.noise.probability) {
+      batch = batch.add(tf.randomNormal(batch.shape, 0, config.noise.stddev * 255));
+    }
+
+    return batch.clipByValue(0, 255).squeeze([0]) as tf.Tensor3D;
+  });
+}
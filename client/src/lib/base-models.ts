@@ -0,0 +1,48 @@
+import { BaseModelSpec } from '@/types/ml-types';
+
+const TFJS_MODELS_ROOT = 'https://storage.googleapis.com/tfjs-models/tfjs';
+
+function mobileNetV1(alpha: string): BaseModelSpec {
+  const id = `mobilenet_v1_${alpha}_224`;
+  return {
+    id,
+    name: `MobileNet v1 (α=${alpha})`,
+    inputSize: 224,
+    normalization: [-1, 1],
+    featureLayer: 'global_average_pooling2d_1',
+    remoteUrl: `${TFJS_MODELS_ROOT}/${id}/model.json`,
+  };
+}
+
+// Keras MobileNetV2 converted with tensorflowjs_converter; there is no public
+// LayersModel copy, so these are only available from base-models/ on our server
+function mobileNetV2(alpha: string): BaseModelSpec {
+  return {
+    id: `mobilenet_v2_${alpha}_224`,
+    name: `MobileNet v2 (α=${alpha})`,
+    inputSize: 224,
+    normalization: [-1, 1],
+    featureLayer: 'global_average_pooling2d',
+  };
+}
+
+export const BASE_MODELS: BaseModelSpec[] = [
+  mobileNetV1('1.0'),
+  mobileNetV1('0.75'),
+  mobileNetV1('0.50'),
+  mobileNetV1('0.25'),
+  mobileNetV2('1.0'),
+  mobileNetV2('0.75'),
+  mobileNetV2('0.50'),
+  mobileNetV2('0.35'),
+];
+
+export const DEFAULT_BASE_MODEL = BASE_MODELS[0];
+
+export function getBaseModelSpec(id: string): BaseModelSpec | undefined {
+  return BASE_MODELS.find(spec => spec.id === id);
+}
+
+export function localBaseModelUrl(spec: BaseModelSpec): string {
+  return `/api/base-models/${spec.id}/model.json`;
+}
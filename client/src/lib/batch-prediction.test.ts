@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { BatchResult, batchToCsv, expectedClass, summarizeBatch, UNKNOWN_CLASS } from '@/lib/batch-prediction';
+
+const classNames = ['cat', 'dog'];
+
+const results: BatchResult[] = [
+  {
+    file: 'cat/a.png',
+    expected: 'cat',
+    predictions: [
+      { className: 'cat', confidence: 91.234, classIndex: 0 },
+      { className: 'dog', confidence: 8.766, classIndex: 1 }
+    ]
+  },
+  {
+    file: 'dog/b.png',
+    expected: 'dog',
+    predictions: [
+      { className: 'cat', confidence: 52, classIndex: 0, rejected: 'small_margin' },
+      { className: 'dog', confidence: 48, classIndex: 1 }
+    ]
+  },
+  { file: 'broken, "old".png', predictions: [], error: 'Failed to load image' }
+];
+
+describe('expectedClass', () => {
+  it('labels a file by the nearest folder named after a class', () => {
+    expect(expectedClass('photos/dog/cat/a.png', classNames)).toBe('cat');
+    expect(expectedClass('cat/2024/a.png', classNames)).toBe('cat');
+  });
+
+  it('ignores the file name and folders that are not classes', () => {
+    expect(expectedClass('photos/cat', classNames)).toBeUndefined();
+    expect(expectedClass('photos/misc/a.png', classNames)).toBeUndefined();
+    expect(expectedClass('a.png', classNames)).toBeUndefined();
+  });
+});
+
+describe('summarizeBatch', () => {
+  it('scores labeled files only and never counts a rejected input as correct', () => {
+    expect(summarizeBatch(results)).toEqual({ total: 3, failed: 1, labeled: 2, correct: 1, accuracy: 0.5 });
+  });
+
+  it('leaves accuracy out without labeled files', () => {
+    expect(summarizeBatch([results[2]]).accuracy).toBeUndefined();
+  });
+});
+
+describe('batchToCsv', () => {
+  it('writes one row per file with a confidence column per class', () => {
+    const [header, cat, dog, broken, end] = batchToCsv(results, classNames).split('\r\n');
+
+    expect(header).toBe('file,expected,predicted,confidence,rejected,cat,dog,error');
+    expect(cat).toBe('cat/a.png,cat,cat,91.23,,91.23,8.77,');
+    expect(dog).toBe(`dog/b.png,dog,${UNKNOWN_CLASS},52.00,small_margin,52.00,48.00,`);
+    expect(broken).toBe('"broken, ""old"".png",,,,,,,Failed to load image');
+    expect(end).toBe('');
+  });
+});
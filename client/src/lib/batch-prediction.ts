@@ -0,0 +1,129 @@
+import { Prediction } from '@/types/ml-types';
+
+// Scores many image files at once. Files inside a folder named after a class
+// count as labeled, so the batch doubles as a test set.
+
+export interface BatchResult {
+  file: string; // Path relative to the chosen folder, or the file name
+  expected?: string; // Class named by the file's folder, if any
+  predictions: Prediction[]; // Best first; empty when the image failed
+  error?: string;
+}
+
+export interface BatchSummary {
+  total: number;
+  failed: number;
+  labeled: number;
+  correct: number;
+  accuracy?: number; // Over labeled files only; absent without any
+}
+
+export interface BatchFile {
+  file: File;
+  path: string;
+}
+
+const IMAGE_EXTENSION = /\.(png|jpe?g|gif|webp|bmp)$/i;
+
+export function isImageFile(file: File): boolean {
+  return file.type.startsWith('image/') || IMAGE_EXTENSION.test(file.name);
+}
+
+// Picked files keep the path of a chosen folder in webkitRelativePath
+export function toBatchFiles(files: FileList | File[]): BatchFile[] {
+  return Array.from(files)
+    .filter(isImageFile)
+    .map(file => ({ file, path: file.webkitRelativePath || file.name }));
+}
+
+function readEntries(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+}
+
+async function collectEntry(entry: FileSystemEntry, files: BatchFile[]): Promise<void> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    if (isImageFile(file)) files.push({ file, path: entry.fullPath.replace(/^\//, '') });
+    return;
+  }
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  // readEntries returns at most 100 entries per call
+  for (let batch = await readEntries(reader); batch.length > 0; batch = await readEntries(reader)) {
+    for (const child of batch) await collectEntry(child, files);
+  }
+}
+
+// Dropped files and folders, with folders walked recursively
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<BatchFile[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (entries.length === 0) return toBatchFiles(dataTransfer.files);
+
+  const files: BatchFile[] = [];
+  for (const entry of entries) await collectEntry(entry, files);
+  return files;
+}
+
+// The nearest folder named after a class labels the file
+export function expectedClass(path: string, classNames: string[]): string | undefined {
+  const folders = path.split('/').slice(0, -1).reverse();
+  return folders.find(folder => classNames.includes(folder));
+}
+
+export const UNKNOWN_CLASS = 'unknown';
+
+// The top class, or UNKNOWN_CLASS when the input was rejected
+export function predictedClass(result: BatchResult): string | undefined {
+  const top = result.predictions[0];
+  if (!top) return undefined;
+  return top.rejected ? UNKNOWN_CLASS : top.className;
+}
+
+export function summarizeBatch(results: BatchResult[]): BatchSummary {
+  const scored = results.filter(result => result.predictions.length > 0);
+  const labeled = scored.filter(result => result.expected !== undefined);
+  // An input rejected as unknown is never correct
+  const correct = labeled.filter(result => predictedClass(result) === result.expected).length;
+  return {
+    total: results.length,
+    failed: results.length - scored.length,
+    labeled: labeled.length,
+    correct,
+    accuracy: labeled.length > 0 ? correct / labeled.length : undefined
+  };
+}
+
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per file with a confidence column (in percent) for every class;
+// confidence is the top class's even when the input was rejected
+export function batchToCsv(results: BatchResult[], classNames: string[]): string {
+  const header = ['file', 'expected', 'predicted', 'confidence', 'rejected', ...classNames, 'error'];
+  const rows = results.map(result => {
+    const top = result.predictions[0];
+    const byClass = classNames.map(name =>
+      result.predictions.find(prediction => prediction.className === name)?.confidence.toFixed(2)
+    );
+    return [result.file, result.expected, predictedClass(result), top?.confidence.toFixed(2), top?.rejected, ...byClass, result.error];
+  });
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+export function batchToJson(results: BatchResult[]) {
+  return {
+    summary: summarizeBatch(results),
+    results: results.map(result => ({
+      file: result.file,
+      expected: result.expected,
+      predicted: predictedClass(result),
+      confidence: result.predictions[0]?.confidence,
+      rejected: result.predictions[0]?.rejected,
+      predictions: result.predictions,
+      error: result.error
+    }))
+  };
+}
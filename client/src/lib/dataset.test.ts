@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeClassWeights,
+  countByLabel,
+  imbalanceRatio,
+  LabeledRow,
+  resampleRows,
+  stratifiedKFold,
+  stratifiedSplit
+} from '@/lib/dataset';
+
+function rows(counts: number[]): LabeledRow[] {
+  return counts.flatMap((count, label) =>
+    Array.from({ length: count }, (_, i) => ({ id: `${label}-${i}`, label }))
+  );
+}
+
+const ids = (items: LabeledRow[]) => items.map(row => row.id).sort();
+
+describe('stratifiedSplit', () => {
+  it('splits every class by the validation share', () => {
+    const { train, validation } = stratifiedSplit(rows([10, 20]), 0.2, 1);
+
+    expect(countByLabel(validation, 2)).toEqual([2, 4]);
+    expect(countByLabel(train, 2)).toEqual([8, 16]);
+  });
+
+  it('puts every row in exactly one set', () => {
+    const all = rows([7, 5, 3]);
+    const { train, validation } = stratifiedSplit(all, 0.3, 2);
+
+    expect(ids([...train, ...validation])).toEqual(ids(all));
+  });
+
+  it('validates at least one sample of every class with two or more', () => {
+    const { train, validation } = stratifiedSplit(rows([2, 3, 1]), 0.1, 3);
+
+    expect(countByLabel(validation, 3)).toEqual([1, 1, 0]);
+    expect(countByLabel(train, 3)).toEqual([1, 2, 1]);
+  });
+
+  it('gives the same split for the same seed', () => {
+    const all = rows([12, 9]);
+
+    expect(ids(stratifiedSplit(all, 0.25, 42).validation)).toEqual(ids(stratifiedSplit(all, 0.25, 42).validation));
+    expect(ids(stratifiedSplit(all, 0.25, 42).validation)).not.toEqual(ids(stratifiedSplit(all, 0.25, 43).validation));
+  });
+
+  it('always validates pinned samples', () => {
+    const all = rows([10]);
+    all[3].pinnedToValidation = true;
+    all[8].pinnedToValidation = true;
+
+    const { validation } = stratifiedSplit(all, 0.1, 4);
+
+    expect(ids(validation)).toEqual(['0-3', '0-8']);
+  });
+
+  it('leaves one sample of a class for training even when all are pinned', () => {
+    const all = rows([3]).map(row => ({ ...row, pinnedToValidation: true }));
+
+    const { train, validation } = stratifiedSplit(all, 0.2, 5);
+
+    expect(train).toHaveLength(1);
+    expect(validation).toHaveLength(2);
+  });
+});
+
+describe('stratifiedKFold', () => {
+  it('validates every row exactly once', () => {
+    const all = rows([10, 7]);
+    const folds = stratifiedKFold(all, 3, 1);
+
+    expect(folds).toHaveLength(3);
+    expect(ids(folds.flat())).toEqual(ids(all));
+  });
+
+  it('gives every fold the same class mix', () => {
+    const folds = stratifiedKFold(rows([9, 6]), 3, 2);
+
+    folds.forEach(fold => expect(countByLabel(fold, 2)).toEqual([3, 2]));
+  });
+
+  it('ignores validation pins', () => {
+    const all = rows([6]).map(row => ({ ...row, pinnedToValidation: true }));
+
+    expect(stratifiedKFold(all, 3, 3).map(fold => fold.length)).toEqual([2, 2, 2]);
+  });
+});
+
+describe('class balancing', () => {
+  it('measures the ratio of the largest to the smallest non-empty class', () => {
+    expect(imbalanceRatio([30, 10, 0])).toBe(3);
+    expect(imbalanceRatio([5, 0])).toBe(1);
+  });
+
+  it('oversamples smaller classes up to the largest', () => {
+    expect(countByLabel(resampleRows(rows([8, 3]), 'oversample', 1), 2)).toEqual([8, 8]);
+  });
+
+  it('undersamples every class down to the smallest', () => {
+    const resampled = resampleRows(rows([8, 3]), 'undersample', 1);
+
+    expect(countByLabel(resampled, 2)).toEqual([3, 3]);
+    expect(new Set(ids(resampled)).size).toBe(6);
+  });
+
+  it('weights classes by inverse frequency, averaging to 1 over the samples', () => {
+    const labels = [0, 0, 0, 1];
+    const weights = computeClassWeights(labels, 3);
+
+    expect(weights[0]).toBeCloseTo(4 / 6);
+    expect(weights[1]).toBeCloseTo(2);
+    expect(weights[2]).toBeUndefined();
+    expect(labels.reduce((sum, label) => sum + weights[label], 0) / labels.length).toBeCloseTo(1);
+  });
+});
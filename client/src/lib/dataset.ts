@@ -0,0 +1,136 @@
+import { BalancingStrategy } from '@/types/ml-types';
+
+// Largest class at least this many times the smallest counts as imbalanced
+export const IMBALANCE_RATIO = 3;
+
+export interface LabeledRow {
+  id: string;
+  label: number;
+  pinnedToValidation?: boolean;
+}
+
+// Small deterministic PRNG (mulberry32) so a seed always gives the same split
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+export function groupByLabel<T extends LabeledRow>(rows: T[]): Map<number, T[]> {
+  const groups = new Map<number, T[]>();
+  for (const row of rows) {
+    const group = groups.get(row.label) ?? [];
+    group.push(row);
+    groups.set(row.label, group);
+  }
+  return groups;
+}
+
+// Splits each class separately so every class with at least two samples lands
+// in both sets. Samples pinned to validation always go there, as long as one
+// sample of their class is left for training.
+export function stratifiedSplit<T extends LabeledRow>(
+  rows: T[],
+  validationSplit: number,
+  seed: number
+): { train: T[]; validation: T[] } {
+  const random = createRandom(seed);
+  const train: T[] = [];
+  const validation: T[] = [];
+
+  for (const group of Array.from(groupByLabel(rows).values())) {
+    const pinned = group.filter(row => row.pinnedToValidation);
+    const unpinned = shuffle(group.filter(row => !row.pinnedToValidation), random);
+    const maxValidation = group.length - 1;
+
+    let validationCount = Math.round(group.length * validationSplit);
+    if (validationSplit > 0 && group.length >= 2) {
+      validationCount = Math.max(validationCount, 1);
+    }
+    validationCount = Math.min(Math.max(validationCount, pinned.length), maxValidation);
+
+    const ordered = [...pinned, ...unpinned];
+    validation.push(...ordered.slice(0, validationCount));
+    train.push(...ordered.slice(validationCount));
+  }
+
+  return { train, validation };
+}
+
+// Deals each class's shuffled rows round-robin over k folds, so every fold has
+// the same class mix. Validation pins don't apply: each row is validated once.
+export function stratifiedKFold<T extends LabeledRow>(rows: T[], k: number, seed: number): T[][] {
+  const random = createRandom(seed);
+  const folds: T[][] = Array.from({ length: k }, () => []);
+  let next = 0;
+
+  for (const group of Array.from(groupByLabel(rows).values())) {
+    for (const row of shuffle(group, random)) {
+      folds[next % k].push(row);
+      next++;
+    }
+  }
+
+  return folds;
+}
+
+export function countByLabel<T extends LabeledRow>(rows: T[], numClasses: number): number[] {
+  const counts = new Array<number>(numClasses).fill(0);
+  rows.forEach(row => counts[row.label]++);
+  return counts;
+}
+
+// Largest over smallest non-empty class size; 1 when balanced
+export function imbalanceRatio(counts: number[]): number {
+  const nonEmpty = counts.filter(count => count > 0);
+  if (nonEmpty.length < 2) return 1;
+  return Math.max(...nonEmpty) / Math.min(...nonEmpty);
+}
+
+// Oversampling repeats random rows of smaller classes up to the largest class;
+// undersampling keeps a random subset of every class the size of the smallest.
+export function resampleRows<T extends LabeledRow>(
+  rows: T[],
+  strategy: Extract<BalancingStrategy, 'oversample' | 'undersample'>,
+  seed: number
+): T[] {
+  const random = createRandom(seed);
+  const groups = Array.from(groupByLabel(rows).values());
+  const sizes = groups.map(group => group.length);
+  const target = strategy === 'oversample' ? Math.max(...sizes) : Math.min(...sizes);
+
+  return groups.flatMap(group => {
+    const shuffled = shuffle(group, random);
+    if (shuffled.length >= target) return shuffled.slice(0, target);
+    const extra = Array.from({ length: target - shuffled.length }, () => shuffled[Math.floor(random() * shuffled.length)]);
+    return [...shuffled, ...extra];
+  });
+}
+
+// Inverse-frequency weights that average to 1 over the samples, as in
+// scikit-learn's "balanced" mode. Absent classes get no entry.
+export function computeClassWeights(labels: number[], numClasses: number): Record<number, number> {
+  const counts = new Array<number>(numClasses).fill(0);
+  labels.forEach(label => counts[label]++);
+  const present = counts.filter(count => count > 0).length;
+
+  const weights: Record<number, number> = {};
+  counts.forEach((count, label) => {
+    if (count > 0) weights[label] = labels.length / (present * count);
+  });
+  return weights;
+}
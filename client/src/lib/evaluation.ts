@@ -0,0 +1,103 @@
+import * as tf from '@tensorflow/tfjs';
+import { EvaluationReport, ClassMetrics, CrossValidationReport, MetricSummary } from '@/types/ml-types';
+
+function safeDivide(numerator: number, denominator: number): number {
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+export function evaluatePredictions(
+  labels: number[],
+  predicted: number[],
+  sampleIds: string[],
+  classNames: string[]
+): EvaluationReport {
+  const numClasses = classNames.length;
+  const confusionMatrix = classNames.map(() => new Array<number>(numClasses).fill(0));
+  const cellSampleIds = classNames.map(() => classNames.map(() => [] as string[]));
+
+  labels.forEach((actual, index) => {
+    const guess = predicted[index];
+    confusionMatrix[actual][guess]++;
+    cellSampleIds[actual][guess].push(sampleIds[index]);
+  });
+
+  const perClass: ClassMetrics[] = classNames.map((className, classIndex) => {
+    const truePositives = confusionMatrix[classIndex][classIndex];
+    const support = confusionMatrix[classIndex].reduce((sum, count) => sum + count, 0);
+    const predictedCount = confusionMatrix.reduce((sum, row) => sum + row[classIndex], 0);
+    const precision = safeDivide(truePositives, predictedCount);
+    const recall = safeDivide(truePositives, support);
+    return {
+      className,
+      precision,
+      recall,
+      f1: safeDivide(2 * precision * recall, precision + recall),
+      support,
+    };
+  });
+
+  const correct = classNames.reduce((sum, _, classIndex) => sum + confusionMatrix[classIndex][classIndex], 0);
+  // Only classes present in the held-out split count towards the macro average
+  const evaluatedClasses = perClass.filter(metrics => metrics.support > 0);
+
+  return {
+    classNames,
+    accuracy: safeDivide(correct, labels.length),
+    macroF1: safeDivide(evaluatedClasses.reduce((sum, metrics) => sum + metrics.f1, 0), evaluatedClasses.length),
+    perClass,
+    confusionMatrix,
+    cellSampleIds,
+    sampleCount: labels.length,
+  };
+}
+
+// Runs the head on held-out embeddings and scores its top-1 predictions
+export async function evaluateModel(
+  head: tf.LayersModel,
+  embeddings: number[][],
+  labels: number[],
+  sampleIds: string[],
+  classNames: string[]
+): Promise<EvaluationReport> {
+  const [predictedTensor, lossTensor] = tf.tidy((): tf.Tensor[] => {
+    const probabilities = head.predict(tf.tensor2d(embeddings)) as tf.Tensor;
+    const targets = tf.oneHot(tf.tensor1d(labels, 'int32'), classNames.length);
+    return [
+      probabilities.argMax(-1),
+      tf.metrics.categoricalCrossentropy(targets, probabilities).mean()
+    ];
+  });
+  const predicted = Array.from(await predictedTensor.data());
+  const loss = (await lossTensor.data())[0];
+  predictedTensor.dispose();
+  lossTensor.dispose();
+  return { ...evaluatePredictions(labels, predicted, sampleIds, classNames), loss };
+}
+
+function summarize(values: number[]): MetricSummary {
+  if (values.length === 0) return { mean: 0, std: 0 };
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.length > 1
+    ? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1)
+    : 0;
+  return { mean, std: Math.sqrt(variance) };
+}
+
+export function summarizeFolds(folds: EvaluationReport[]): CrossValidationReport {
+  const classNames = folds[0]?.classNames ?? [];
+  return {
+    folds,
+    accuracy: summarize(folds.map(fold => fold.accuracy)),
+    loss: summarize(folds.map(fold => fold.loss ?? 0)),
+    perClass: classNames.map((className, classIndex) => {
+      // Folds without samples of this class say nothing about it
+      const scored = folds.map(fold => fold.perClass[classIndex]).filter(metrics => metrics.support > 0);
+      return {
+        className,
+        precision: summarize(scored.map(metrics => metrics.precision)),
+        recall: summarize(scored.map(metrics => metrics.recall)),
+        f1: summarize(scored.map(metrics => metrics.f1)),
+      };
+    }),
+  };
+}
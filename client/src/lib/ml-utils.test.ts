@@ -0,0 +1,113 @@
+import * as tf from '@tensorflow/tfjs';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { createClassifierHead, DEFAULT_TRAINING_CONFIG, trainModel, warmStartHead } from '@/lib/ml-utils';
+import { TrainingConfig } from '@/types/ml-types';
+
+const config: TrainingConfig = {
+  ...DEFAULT_TRAINING_CONFIG,
+  epochs: 30,
+  learningRate: 0.1,
+  batchSize: 8,
+  dropout: 0,
+  earlyStopping: { enabled: true, monitor: 'val_loss', patience: 3, minDelta: 0 }
+};
+
+beforeAll(async () => {
+  await tf.setBackend('cpu');
+});
+
+const weightsOf = (model: tf.LayersModel) => model.getWeights().map(weight => Array.from(weight.dataSync()));
+
+// Training labels follow the sign of the first feature and validation labels
+// are the opposite, so the validation loss gets worse as the head learns
+function conflictingData() {
+  const features = Array.from({ length: 16 }, (_, i) => [i % 2 === 0 ? 1 : -1, (i % 5) / 5]);
+  const labels = features.map(([x]) => x > 0 ? 1 : 0);
+  const oneHot = (values: number[]) => tf.oneHot(tf.tensor1d(values, 'int32'), 2);
+  return {
+    xs: tf.tensor2d(features),
+    ys: oneHot(labels),
+    validation: { xs: tf.tensor2d(features), ys: oneHot(labels.map(label => 1 - label)) }
+  };
+}
+
+async function train(trainingConfig: TrainingConfig, cancelAfterEpoch?: number) {
+  const head = createClassifierHead(2, 2, trainingConfig);
+  const data = conflictingData();
+  // The weights at the end of every epoch
+  const snapshots: number[][][] = [];
+  const result = await trainModel(head, data, trainingConfig, () => {
+    snapshots.push(weightsOf(head));
+  }, cancelAfterEpoch === undefined ? undefined : {
+    isCancelled: () => snapshots.length > cancelAfterEpoch,
+    waitWhilePaused: async () => {}
+  });
+  tf.dispose([data.xs, data.ys, data.validation.xs, data.validation.ys]);
+  return { head, result, snapshots };
+}
+
+describe('trainModel', () => {
+  it('stops once the monitored metric stops improving and restores the best epoch', async () => {
+    const { head, result, snapshots } = await train(config);
+
+    expect(result.stopReason).toBe('early_stopping');
+    expect(result.bestEpoch).toBeDefined();
+    expect(result.epochsRun).toBe(result.bestEpoch! + 1 + config.earlyStopping.patience);
+    expect(snapshots).toHaveLength(result.epochsRun);
+    expect(weightsOf(head)).toEqual(snapshots[result.bestEpoch!]);
+    expect(weightsOf(head)).not.toEqual(snapshots[snapshots.length - 1]);
+  });
+
+  it('keeps the last epoch without early stopping', async () => {
+    const { head, result, snapshots } = await train({
+      ...config,
+      epochs: 5,
+      earlyStopping: { ...config.earlyStopping, enabled: false }
+    });
+
+    expect(result).toEqual({ epochsRun: 5, bestEpoch: undefined, stopReason: 'completed' });
+    expect(weightsOf(head)).toEqual(snapshots[4]);
+  });
+
+  it('keeps the best epoch so far when cancelled', async () => {
+    const { head, result, snapshots } = await train({
+      ...config,
+      earlyStopping: { ...config.earlyStopping, enabled: false }
+    }, 4);
+
+    expect(result.stopReason).toBe('cancelled');
+    expect(result.epochsRun).toBe(5);
+    expect(weightsOf(head)).toEqual(snapshots[result.bestEpoch!]);
+  });
+});
+
+describe('warmStartHead', () => {
+  const headConfig = { dropout: 0, hiddenLayers: [4] };
+
+  it('copies each mapped output from the previous head and leaves new classes initialized', () => {
+    const previous = createClassifierHead(3, 2, headConfig);
+    const head = createClassifierHead(3, 3, headConfig);
+    const [hiddenKernel, hiddenBias, kernel, bias] = previous.getWeights().map(weight => weight.arraySync() as number[][]);
+    const [, , initialKernel, initialBias] = head.getWeights().map(weight => weight.arraySync() as number[][]);
+
+    // The previous second class is now first; the middle class is new
+    expect(warmStartHead(previous, head, [1, null, 0])).toBe(true);
+
+    const [newHiddenKernel, newHiddenBias, newKernel, newBias] = head.getWeights().map(weight => weight.arraySync() as number[][]);
+    expect(newHiddenKernel).toEqual(hiddenKernel);
+    expect(newHiddenBias).toEqual(hiddenBias);
+    expect(newKernel.map(row => row[0])).toEqual(kernel.map(row => row[1]));
+    expect(newKernel.map(row => row[1])).toEqual(initialKernel.map(row => row[1]));
+    expect(newKernel.map(row => row[2])).toEqual(kernel.map(row => row[0]));
+    expect(newBias).toEqual([bias[1], initialBias[1], bias[0]]);
+  });
+
+  it('leaves the head untouched when the hidden layers differ', () => {
+    const previous = createClassifierHead(3, 2, headConfig);
+    const head = createClassifierHead(3, 2, { ...headConfig, hiddenLayers: [8] });
+    const initial = weightsOf(head);
+
+    expect(warmStartHead(previous, head, [0, 1])).toBe(false);
+    expect(weightsOf(head)).toEqual(initial);
+  });
+});
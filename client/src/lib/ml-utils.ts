@@ -1,34 +1,90 @@
 import * as tf from '@tensorflow/tfjs';
+import {
+  BaseModelSpec,
+  BaseModelSource,
+  ModelMetadata,
+  TrainingClass,
+  TrainingConfig,
+  TrainingRecord,
+  TrainingStopReason,
+  AugmentationConfig,
+  ImageSample,
+  RejectionConfig
+} from '@/types/ml-types';
+import { localBaseModelUrl } from '@/lib/base-models';
+import { augmentImage, DEFAULT_AUGMENTATION_CONFIG } from '@/lib/augmentation';
 
-export const MOBILENET_URL = 'https://storage.googleapis.com/tfjs-models/tfjs/mobilenet_v1_1.0_224/model.json';
+export const DEFAULT_TRAINING_CONFIG: TrainingConfig = {
+  epochs: 20,
+  optimizer: 'adam',
+  learningRate: 0.001,
+  batchSize: 16,
+  validationSplit: 0.2,
+  seed: 42,
+  dropout: 0.2,
+  hiddenLayers: [],
+  labelSmoothing: 0,
+  balancing: 'none',
+  warmStart: true,
+  augmentation: DEFAULT_AUGMENTATION_CONFIG,
+  earlyStopping: {
+    enabled: false,
+    monitor: 'val_loss',
+    patience: 5,
+    minDelta: 0.001,
+  },
+  crossValidation: {
+    enabled: false,
+    folds: 5,
+    trainFinalModel: true,
+  },
+  fineTuning: {
+    enabled: false,
+    unfrozenLayers: 4,
+    epochs: 5,
+    learningRate: 0.0001,
+  },
+};
 
-export async function loadMobileNet() {
-  try {
-    // Set WebGL backend if available
-    await tf.setBackend('webgl');
-    const mobilenet = await tf.loadLayersModel(MOBILENET_URL);
-    return mobilenet;
-  } catch (error) {
-    console.error('Failed to load MobileNet with WebGL, trying CPU:', error);
+export async function loadBaseModel(spec: BaseModelSpec): Promise<{ model: tf.LayersModel; source: BaseModelSource }> {
+  // Tried in order: weights hosted by our own server, then the public CDN
+  const sources: Array<{ source: BaseModelSource; url: string }> = [
+    { source: 'local', url: localBaseModelUrl(spec) },
+  ];
+  if (spec.remoteUrl) {
+    sources.push({ source: 'remote', url: spec.remoteUrl });
+  }
+
+  for (const { source, url } of sources) {
     try {
-      // Fallback to CPU backend
-      await tf.setBackend('cpu');
-      const mobilenet = await tf.loadLayersModel(MOBILENET_URL);
-      return mobilenet;
-    } catch (cpuError) {
-      console.error('Failed to load MobileNet with CPU:', cpuError);
-      // Create a simple fallback model
-      return createFallbackModel();
+      const baseModel = await tf.loadLayersModel(url);
+      return { model: baseModel, source };
+    } catch (error) {
+      console.warn(`Failed to load ${spec.name} from ${url}:`, error);
     }
   }
+
+  // No pretrained weights reachable: the fallback is an untrained random CNN,
+  // so callers must surface that this is not transfer learning
+  console.error(`${spec.name} is unavailable, using untrained fallback model`);
+  return { model: createFallbackModel(spec.inputSize), source: 'fallback' };
+}
+
+export async function loadCustomBaseModel(files: File[]): Promise<tf.LayersModel> {
+  const modelJson = files.find(file => file.name.endsWith('.json'));
+  if (!modelJson) {
+    throw new Error('model.json is required to load a custom base model');
+  }
+  const weightFiles = files.filter(file => file !== modelJson);
+  return tf.loadLayersModel(tf.io.browserFiles([modelJson, ...weightFiles]));
 }
 
-function createFallbackModel(): tf.LayersModel {
+function createFallbackModel(inputSize: number): tf.LayersModel {
   // Create a simple CNN model as fallback
   const model = tf.sequential({
     layers: [
       tf.layers.conv2d({
-        inputShape: [224, 224, 3],
+        inputShape: [inputSize, inputSize, 3],
         filters: 32,
         kernelSize: 3,
         activation: 'relu',
@@ -48,19 +104,31 @@ function createFallbackModel(): tf.LayersModel {
   return model;
 }
 
-export function preprocessImage(imageElement: HTMLImageElement | HTMLVideoElement | HTMLCanvasElement): tf.Tensor {
+// The centered square of a height x width image, the part the models see.
+// The official Teachable Machine loader crops the same way, so exported
+// models predict the same there. Plain arithmetic so the standalone app can
+// embed it as is.
+export function centerSquare(height: number, width: number): { top: number; left: number; size: number } {
+  const size = Math.min(height, width);
+  return { top: Math.floor((height - size) / 2), left: Math.floor((width - size) / 2), size };
+}
+
+// Center-crop, resize and normalize a [height, width, 3] pixel tensor in the [0, 255] range
+export function preprocessTensor(pixels: tf.Tensor3D, spec: BaseModelSpec): tf.Tensor {
   return tf.tidy(() => {
-    // Convert to tensor
-    const tensor = tf.browser.fromPixels(imageElement);
-    
-    // Resize to 224x224 (MobileNet input size)
-    const resized = tf.image.resizeBilinear(tensor, [224, 224]);
+    // Crop to the centered square rather than stretching the image
+    const { top, left, size } = centerSquare(pixels.shape[0], pixels.shape[1]);
+    const square = pixels.slice([top, left, 0], [size, size, -1]);
+
+    // Resize to the base model's input size
+    const resized = tf.image.resizeBilinear(square, [spec.inputSize, spec.inputSize]);
     
     // Cast to float32
     const casted = resized.cast('float32');
     
-    // Normalize to [0, 1]
-    const normalized = casted.div(255.0);
+    // Scale [0, 255] to the range the base model was trained with
+    const [min, max] = spec.normalization;
+    const normalized = casted.div(255.0).mul(max - min).add(min);
     
     // Add batch dimension
     const batched = normalized.expandDims(0);
@@ -69,16 +137,24 @@ export function preprocessImage(imageElement: HTMLImageElement | HTMLVideoElemen
   });
 }
 
-export function createTransferModel(baseModel: tf.LayersModel, numClasses: number): tf.LayersModel {
+export function preprocessImage(
+  imageElement: HTMLImageElement | HTMLVideoElement | HTMLCanvasElement,
+  spec: BaseModelSpec
+): tf.Tensor {
+  return tf.tidy(() => preprocessTensor(tf.browser.fromPixels(imageElement), spec));
+}
+
+export function createFeatureExtractor(baseModel: tf.LayersModel, featureLayer?: string): tf.LayersModel {
   let featureExtractor: tf.LayersModel;
   
   try {
-    // Try to use the base model as feature extractor
-    const layerName = baseModel.layers.find(layer => 
-      layer.name.includes('global_average_pooling') || 
-      layer.name.includes('flatten') ||
-      layer.name.includes('dense')
-    )?.name;
+    // Prefer the layer declared by the base model spec, then guess by name
+    const layerName = baseModel.layers.find(layer => layer.name === featureLayer)?.name ??
+      baseModel.layers.find(layer => 
+        layer.name.includes('global_average_pooling') || 
+        layer.name.includes('flatten') ||
+        layer.name.includes('dense')
+      )?.name;
     
     if (layerName) {
       featureExtractor = tf.model({
@@ -93,6 +169,15 @@ export function createTransferModel(baseModel: tf.LayersModel, numClasses: numbe
         outputs: secondLastLayer.output
       });
     }
+
+    // The head expects flat feature vectors
+    const output = featureExtractor.outputs[0];
+    if (output.shape.length > 2) {
+      featureExtractor = tf.model({
+        inputs: featureExtractor.inputs,
+        outputs: tf.layers.flatten().apply(output) as tf.SymbolicTensor
+      });
+    }
   } catch (error) {
     console.error('Error creating feature extractor, using full model:', error);
     featureExtractor = baseModel;
@@ -100,62 +185,446 @@ export function createTransferModel(baseModel: tf.LayersModel, numClasses: numbe
   
   // Freeze the base model
   featureExtractor.trainable = false;
-  
-  // Create a new model with classification head
-  const input = tf.input({ shape: [224, 224, 3] });
-  const features = featureExtractor.apply(input) as tf.SymbolicTensor;
-  
-  // Add a dropout layer for regularization
-  const dropout = tf.layers.dropout({ rate: 0.2 }).apply(features) as tf.SymbolicTensor;
-  
-  const predictions = tf.layers.dense({
+
+  return featureExtractor;
+}
+
+export function createClassifierHead(
+  featureSize: number,
+  numClasses: number,
+  config: Pick<TrainingConfig, 'dropout' | 'hiddenLayers'> = DEFAULT_TRAINING_CONFIG
+): tf.LayersModel {
+  const head = tf.sequential({ name: 'classifier_head' });
+  head.add(tf.layers.inputLayer({ inputShape: [featureSize] }));
+
+  // Add a dropout layer for regularization in front of every dense layer
+  const addDropout = () => {
+    if (config.dropout > 0) {
+      head.add(tf.layers.dropout({ rate: config.dropout }));
+    }
+  };
+
+  for (const units of config.hiddenLayers) {
+    addDropout();
+    head.add(tf.layers.dense({ units, activation: 'relu' }));
+  }
+
+  addDropout();
+  head.add(tf.layers.dense({
     units: numClasses,
     activation: 'softmax',
     name: 'predictions'
-  }).apply(dropout) as tf.SymbolicTensor;
-  
+  }));
+
+  return head;
+}
+
+// Copies a previous head's weights into a freshly built one. outputMap[i] is
+// the previous output behind new output i, or null for a class the previous
+// head never saw; those outputs keep their initial weights. Returns false and
+// leaves the new head untouched when the hidden layers differ.
+export function warmStartHead(previous: tf.LayersModel, head: tf.LayersModel, outputMap: Array<number | null>): boolean {
+  const source = previous.getWeights();
+  const target = head.getWeights();
+  const sameShape = (a: tf.Tensor, b: tf.Tensor) => a.shape.length === b.shape.length && a.shape.every((size, i) => size === b.shape[i]);
+  if (source.length !== target.length || source.length < 2) return false;
+  if (!source.slice(0, -2).every((weight, i) => sameShape(weight, target[i]))) return false;
+  if (source[source.length - 2].shape[0] !== target[target.length - 2].shape[0]) return false;
+
+  tf.tidy(() => {
+    const [kernel, bias] = target.slice(-2);
+    const [previousKernel, previousBias] = source.slice(-2);
+    const column = (weights: tf.Tensor, index: number) => weights.rank === 2
+      ? weights.slice([0, index], [-1, 1])
+      : weights.slice([index], [1]);
+    const remap = (initial: tf.Tensor, trained: tf.Tensor) => tf.concat(
+      outputMap.map((previousIndex, index) => previousIndex === null ? column(initial, index) : column(trained, previousIndex)),
+      initial.rank - 1
+    );
+    head.setWeights([...source.slice(0, -2), remap(kernel, previousKernel), remap(bias, previousBias)]);
+  });
+  return true;
+}
+
+export interface TransferModel {
+  featureExtractor: tf.LayersModel;
+  head: tf.LayersModel;
+  model: tf.LayersModel;
+}
+
+export function createTransferModel(
+  featureExtractor: tf.LayersModel,
+  numClasses: number,
+  config: Pick<TrainingConfig, 'dropout' | 'hiddenLayers'> = DEFAULT_TRAINING_CONFIG
+): TransferModel {
+  const featureSize = featureExtractor.outputs[0].shape[1] as number;
+  return composeTransferModel(featureExtractor, createClassifierHead(featureSize, numClasses, config));
+}
+
+// Topology and weights of a model in memory, e.g. to hand it to a worker
+export function serializeModel(model: tf.LayersModel): Promise<tf.io.ModelArtifacts> {
+  return new Promise((resolve, reject) => {
+    model.save(tf.io.withSaveHandler(async artifacts => {
+      resolve(artifacts);
+      return { modelArtifactsInfo: { dateSaved: new Date(), modelTopologyType: 'JSON' } };
+    })).catch(reject);
+  });
+}
+
+export function deserializeModel(artifacts: tf.io.ModelArtifacts): Promise<tf.LayersModel> {
+  return tf.loadLayersModel(tf.io.fromMemory(artifacts));
+}
+
+// An independent copy of a model with its own weights
+export async function cloneLayersModel(model: tf.LayersModel): Promise<tf.LayersModel> {
+  return deserializeModel(await serializeModel(model));
+}
+
+// Makes the top `count` layers with weights trainable and freezes the rest.
+// Batch normalization stays frozen; freezing alone doesn't keep fit from
+// updating its moving statistics, so train with the backbone in inference
+// mode (see fineTune).
+export function unfreezeTopLayers(featureExtractor: tf.LayersModel, count: number): string[] {
+  featureExtractor.trainable = true;
+  const unfrozen: string[] = [];
+
+  for (const layer of featureExtractor.layers.slice().reverse()) {
+    const tunable = layer.weights.length > 0 && layer.getClassName() !== 'BatchNormalization';
+    layer.trainable = tunable && unfrozen.length < count;
+    if (layer.trainable) unfrozen.push(layer.name);
+  }
+
+  return unfrozen.reverse();
+}
+
+// Full image -> class graph sharing the head's weights, used for export
+export function composeTransferModel(featureExtractor: tf.LayersModel, head: tf.LayersModel): TransferModel {
+  const [, height, width, channels] = featureExtractor.inputs[0].shape as number[];
+  const input = tf.input({ shape: [height, width, channels] });
+  const features = featureExtractor.apply(input) as tf.SymbolicTensor;
+  const predictions = head.apply(features) as tf.SymbolicTensor;
+
   const model = tf.model({
     inputs: input,
     outputs: predictions
   });
   
-  return model;
+  return { featureExtractor, head, model };
+}
+
+// Recovers the feature extractor and head of a model saved from
+// composeTransferModel, the last two nested models in the graph. Layers in
+// front of them, like baked-in normalization, are left out. Null for any
+// other model layout.
+export function splitTransferModel(model: tf.LayersModel): TransferModel | null {
+  const nested = model.layers.filter((layer): layer is tf.LayersModel => layer instanceof tf.LayersModel);
+  if (nested.length !== 2) return null;
+  const [featureExtractor, head] = nested;
+  return { featureExtractor, head, model };
+}
+
+// Frees a trained model and its optimizer state. The shared frozen feature
+// extractor survives; a fine-tuned copy of the base model is freed instead.
+export function disposeTransferModel(transferModel: TransferModel, tunedBaseModel?: tf.LayersModel): void {
+  transferModel.model.optimizer?.dispose();
+  transferModel.head.optimizer?.dispose();
+  // Disposing the composed graph counts the nested feature extractor down
+  // twice and frees the base model's weights with it, so the head's weights
+  // are freed directly
+  transferModel.head.weights.forEach(weight => weight.dispose());
+  tunedBaseModel?.dispose();
+}
+
+function createOptimizer(config: TrainingConfig): tf.Optimizer {
+  switch (config.optimizer) {
+    case 'sgd':
+      return tf.train.sgd(config.learningRate);
+    case 'rmsprop':
+      return tf.train.rmsprop(config.learningRate);
+    case 'adagrad':
+      return tf.train.adagrad(config.learningRate);
+    default:
+      return tf.train.adam(config.learningRate);
+  }
+}
+
+// Per-sample crossentropy; labelSmoothing of each one-hot target is spread
+// evenly over all classes
+function smoothedCrossentropy(labelSmoothing: number) {
+  return (yTrue: tf.Tensor, yPred: tf.Tensor) => tf.tidy(() => {
+    const numClasses = yTrue.shape[yTrue.shape.length - 1] as number;
+    const smoothed = labelSmoothing > 0 ? yTrue.mul(1 - labelSmoothing).add(labelSmoothing / numClasses) : yTrue;
+    return tf.metrics.categoricalCrossentropy(smoothed, yPred);
+  });
+}
+
+function createLoss(labelSmoothing: number) {
+  return labelSmoothing > 0 ? smoothedCrossentropy(labelSmoothing) : 'categoricalCrossentropy';
+}
+
+export interface TrainingData {
+  xs: tf.Tensor;
+  ys: tf.Tensor;
+  // Explicit held-out set; without it Keras holds out the last validationSplit of xs
+  validation?: { xs: tf.Tensor, ys: tf.Tensor };
+  classWeight?: Record<number, number>; // Scales each class's loss
+}
+
+export interface EpochDetails {
+  valLoss?: number;
+  valAccuracy?: number;
+  bestEpoch?: number; // 0-based, only reported with early stopping
+}
+
+export interface TrainingResult {
+  epochsRun: number;
+  bestEpoch?: number; // 0-based, set when the best epoch's weights were restored
+  stopReason: TrainingStopReason;
+}
+
+// Checked between epochs, so a run can be paused or cancelled from outside
+export interface TrainingControl {
+  isCancelled: () => boolean;
+  waitWhilePaused: () => Promise<void>;
+}
+
+type EpochEndCallback = (epoch: number, loss: number, accuracy: number | undefined, details: EpochDetails) => void;
+
+// Early stopping, best-epoch tracking and pausing or cancelling between
+// epochs, shared by trainModel and trainWithForward
+function createEpochMonitor(
+  model: tf.LayersModel,
+  config: TrainingConfig,
+  hasValidation: boolean,
+  onEpochEnd?: EpochEndCallback,
+  control?: TrainingControl
+) {
+  const { earlyStopping } = config;
+  // Without a validation set, monitor the training metric of the same kind
+  const monitor = hasValidation ? earlyStopping.monitor : earlyStopping.monitor.replace('val_', '');
+  const lowerIsBetter = monitor.endsWith('loss');
+  // A cancelled run may keep its best epoch, so controlled runs always track it
+  const trackBest = earlyStopping.enabled || !!control;
+
+  let best: number | undefined;
+  let bestEpoch: number | undefined;
+  let bestWeights: tf.Tensor[] | null = null;
+  let epochsWithoutImprovement = 0;
+  let epochsRun = 0;
+  let stopReason: TrainingStopReason = 'completed';
+
+  return {
+    // Resolves to true when training should stop after this epoch
+    endEpoch: async (epoch: number, logs: tf.Logs): Promise<boolean> => {
+      epochsRun = epoch + 1;
+      let stop = false;
+
+      if (trackBest && logs[monitor] !== undefined) {
+        const value = logs[monitor] as number;
+        const improved = best === undefined ||
+          (lowerIsBetter ? value < best - earlyStopping.minDelta : value > best + earlyStopping.minDelta);
+
+        if (improved) {
+          best = value;
+          bestEpoch = epoch;
+          epochsWithoutImprovement = 0;
+          bestWeights?.forEach(weight => weight.dispose());
+          bestWeights = model.getWeights().map(weight => weight.clone());
+        } else if (earlyStopping.enabled && ++epochsWithoutImprovement >= earlyStopping.patience) {
+          stop = true;
+          stopReason = 'early_stopping';
+        }
+      }
+
+      onEpochEnd?.(epoch, logs.loss as number, logs.acc as number, {
+        valLoss: logs.val_loss as number | undefined,
+        valAccuracy: logs.val_acc as number | undefined,
+        bestEpoch: earlyStopping.enabled ? bestEpoch : undefined
+      });
+
+      if (control) {
+        await control.waitWhilePaused();
+        if (control.isCancelled()) {
+          stop = true;
+          stopReason = 'cancelled';
+        }
+      }
+      return stop;
+    },
+    // Keeps the best epoch rather than the last one
+    finish: (): TrainingResult => {
+      const restoredWeights = bestWeights as tf.Tensor[] | null;
+      const restore = earlyStopping.enabled || stopReason === 'cancelled';
+      if (restoredWeights && restore) {
+        model.setWeights(restoredWeights);
+      }
+      restoredWeights?.forEach(weight => weight.dispose());
+      bestWeights = null;
+      return { epochsRun, bestEpoch: restoredWeights && restore ? bestEpoch : undefined, stopReason };
+    }
+  };
 }
 
 export async function trainModel(
   model: tf.LayersModel,
-  trainingData: { xs: tf.Tensor, ys: tf.Tensor },
-  epochs: number,
-  onEpochEnd?: (epoch: number, loss: number, accuracy?: number) => void
-): Promise<void> {
-  const optimizer = tf.train.adam(0.001);
-  
+  trainingData: TrainingData,
+  config: TrainingConfig,
+  onEpochEnd?: EpochEndCallback,
+  control?: TrainingControl
+): Promise<TrainingResult> {
   model.compile({
-    optimizer: optimizer,
-    loss: 'categoricalCrossentropy',
+    optimizer: createOptimizer(config),
+    loss: createLoss(config.labelSmoothing),
     metrics: ['accuracy']
   });
-  
-  const history = await model.fit(trainingData.xs, trainingData.ys, {
-    epochs: epochs,
-    batchSize: 16,
-    validationSplit: 0.2,
+
+  const hasValidation = !!trainingData.validation || config.validationSplit > 0;
+  const epochs = createEpochMonitor(model, config, hasValidation, onEpochEnd, control);
+
+  await model.fit(trainingData.xs, trainingData.ys, {
+    epochs: config.epochs,
+    batchSize: config.batchSize,
+    ...(trainingData.validation
+      ? { validationData: [trainingData.validation.xs, trainingData.validation.ys] }
+      : { validationSplit: config.validationSplit }),
+    classWeight: trainingData.classWeight,
     shuffle: true,
     callbacks: {
-      onEpochEnd: (epoch, logs) => {
-        if (onEpochEnd && logs) {
-          onEpochEnd(epoch, logs.loss as number, logs.acc as number);
+      onEpochEnd: async (epoch, logs) => {
+        if (logs && await epochs.endEpoch(epoch, logs)) {
+          model.stopTraining = true;
         }
       }
     }
   });
+
+  return epochs.finish();
+}
+
+// Mean loss and accuracy of predictions against one-hot targets, each
+// sample's loss scaled by its class weight
+function scoreBatch(
+  loss: (yTrue: tf.Tensor, yPred: tf.Tensor) => tf.Tensor,
+  ys: tf.Tensor,
+  predictions: tf.Tensor,
+  classWeight?: Record<number, number>
+): { loss: tf.Scalar; correct: tf.Scalar } {
+  return tf.tidy(() => {
+    let perSample = loss(ys, predictions);
+    if (classWeight) {
+      const numClasses = ys.shape[1] as number;
+      const weights = Array.from({ length: numClasses }, (_, label) => classWeight[label] ?? 1);
+      perSample = perSample.mul(ys.mul(tf.tensor1d(weights)).sum(-1));
+    }
+    return {
+      loss: perSample.mean() as tf.Scalar,
+      correct: predictions.argMax(-1).equal(ys.argMax(-1)).sum() as tf.Scalar
+    };
+  });
+}
+
+// Like trainModel, but with its own loop around `forward` instead of fit.
+// fit runs every layer in training mode, so batch normalization would
+// normalize with each batch's statistics and overwrite its moving averages;
+// here the caller decides per layer. Only the model's trainable weights are
+// updated, and validation needs an explicit set.
+export async function trainWithForward(
+  model: tf.LayersModel,
+  forward: (xs: tf.Tensor) => tf.Tensor,
+  trainingData: TrainingData,
+  config: TrainingConfig,
+  onEpochEnd?: EpochEndCallback,
+  control?: TrainingControl
+): Promise<TrainingResult> {
+  const { xs, ys, validation, classWeight } = trainingData;
+  const optimizer = createOptimizer(config);
+  const loss = smoothedCrossentropy(config.labelSmoothing);
+  const variables = model.trainableWeights.map(weight => weight.read() as tf.Variable);
+  const sampleCount = xs.shape[0];
+  const epochs = createEpochMonitor(model, config, !!validation, onEpochEnd, control);
+
+  try {
+    for (let epoch = 0; epoch < config.epochs; epoch++) {
+      const order = Array.from(tf.util.createShuffledIndices(sampleCount));
+      let lossSum = 0;
+      let correct = 0;
+
+      for (let start = 0; start < sampleCount; start += config.batchSize) {
+        const indices = tf.tensor1d(order.slice(start, start + config.batchSize), 'int32');
+        const batchXs = tf.gather(xs, indices);
+        const batchYs = tf.gather(ys, indices);
+        let batchCorrect: tf.Scalar | undefined;
+        const batchLoss = optimizer.minimize(() => {
+          const scores = scoreBatch(loss, batchYs, forward(batchXs), classWeight);
+          batchCorrect = tf.keep(scores.correct);
+          return scores.loss;
+        }, true, variables) as tf.Scalar;
+
+        lossSum += (await batchLoss.data())[0] * indices.shape[0];
+        correct += (await (batchCorrect as tf.Scalar).data())[0];
+        tf.dispose([indices, batchXs, batchYs, batchLoss, batchCorrect as tf.Scalar]);
+        await tf.nextFrame();
+      }
+
+      const logs: tf.Logs = { loss: lossSum / sampleCount, acc: correct / sampleCount };
+      if (validation) {
+        // Inference mode throughout, as for predictions
+        const predictions = model.predict(validation.xs, { batchSize: config.batchSize }) as tf.Tensor;
+        const scores = scoreBatch(loss, validation.ys, predictions);
+        logs.val_loss = (await scores.loss.data())[0];
+        logs.val_acc = (await scores.correct.data())[0] / (validation.xs.shape[0] as number);
+        tf.dispose([predictions, scores.loss, scores.correct]);
+      }
+
+      if (await epochs.endEpoch(epoch, logs)) break;
+    }
+    return epochs.finish();
+  } finally {
+    optimizer.dispose();
+  }
+}
+
+export function extractFeatures(
+  featureExtractor: tf.LayersModel,
+  imageElement: HTMLImageElement | HTMLVideoElement | HTMLCanvasElement,
+  spec: BaseModelSpec
+): tf.Tensor {
+  return tf.tidy(() => featureExtractor.predict(preprocessImage(imageElement, spec)) as tf.Tensor);
+}
+
+export function predict(
+  featureExtractor: tf.LayersModel,
+  head: tf.LayersModel,
+  imageElement: HTMLImageElement | HTMLVideoElement | HTMLCanvasElement,
+  spec: BaseModelSpec
+): tf.Tensor {
+  return tf.tidy(() => head.predict(extractFeatures(featureExtractor, imageElement, spec)) as tf.Tensor);
+}
+
+export function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = url;
+  });
 }
 
-export function predict(model: tf.LayersModel, imageElement: HTMLImageElement | HTMLVideoElement | HTMLCanvasElement): tf.Tensor {
-  const preprocessed = preprocessImage(imageElement);
-  const prediction = model.predict(preprocessed) as tf.Tensor;
-  preprocessed.dispose();
-  return prediction;
+// Decodes an image file to [height, width, 3] pixels in [0, 255]; works in workers too
+export async function decodeImageBlob(blob: Blob): Promise<tf.Tensor3D> {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    return tf.browser.fromPixels(bitmap);
+  } finally {
+    bitmap.close();
+  }
+}
+
+export async function embedPixels(featureExtractor: tf.LayersModel, pixels: tf.Tensor3D, spec: BaseModelSpec): Promise<number[]> {
+  const features = tf.tidy(() => featureExtractor.predict(preprocessTensor(pixels, spec)) as tf.Tensor);
+  const data = await features.data();
+  features.dispose();
+  return Array.from(data);
 }
 
 export async function exportModel(model: tf.LayersModel): Promise<void> {
@@ -167,6 +636,53 @@ export async function exportModel(model: tf.LayersModel): Promise<void> {
   }
 }
 
+// Embeddings of freshly augmented copies of a sample, used as extra training rows
+export async function embedAugmentedPixels(
+  featureExtractor: tf.LayersModel,
+  pixels: tf.Tensor3D,
+  spec: BaseModelSpec,
+  config: AugmentationConfig
+): Promise<number[][]> {
+  const features = tf.tidy(() => {
+    const copies = Array.from({ length: config.copiesPerSample }, () =>
+      preprocessTensor(augmentImage(pixels, config), spec)
+    );
+    return featureExtractor.predict(tf.concat(copies)) as tf.Tensor2D;
+  });
+  const embeddings = await features.array();
+  features.dispose();
+  return embeddings;
+}
+
+export function createModelMetadata(
+  classes: Array<Pick<TrainingClass, 'name' | 'color'>>, // In the order of the model's outputs
+  baseModel: BaseModelSpec,
+  training?: TrainingRecord,
+  rejection?: RejectionConfig
+): ModelMetadata {
+  return {
+    labels: classes.map(cls => cls.name),
+    colors: classes.map(cls => cls.color),
+    baseModel,
+    training,
+    rejection,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export function downloadJson(filename: string, data: unknown): void {
+  downloadBlob(filename, new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+}
+
+export function downloadBlob(filename: string, blob: Blob): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 export function createImageFromCanvas(canvas: HTMLCanvasElement): Promise<Blob> {
   return new Promise((resolve, reject) => {
     canvas.toBlob((blob) => {
@@ -179,7 +695,7 @@ export function createImageFromCanvas(canvas: HTMLCanvasElement): Promise<Blob>
   });
 }
 
-export function resizeImage(file: File, maxWidth: number = 224, maxHeight: number = 224): Promise<Blob> {
+export function resizeImage(file: Blob, maxWidth: number = 224, maxHeight: number = 224): Promise<Blob> {
   return new Promise((resolve, reject) => {
     const img = new Image();
     img.onload = () => {
@@ -222,3 +738,30 @@ export function resizeImage(file: File, maxWidth: number = 224, maxHeight: numbe
     img.src = URL.createObjectURL(file);
   });
 }
+
+// A training sample from an image file, downscaled like every other sample
+export async function createImageSample(file: Blob): Promise<ImageSample> {
+  const resizedBlob = await resizeImage(file);
+  const url = URL.createObjectURL(resizedBlob);
+  try {
+    const img = await loadImage(url);
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+    canvas.width = img.width;
+    canvas.height = img.height;
+    ctx.drawImage(img, 0, 0);
+
+    return {
+      id: `sample-${Date.now()}-${Math.random()}`,
+      imageData: ctx.getImageData(0, 0, img.width, img.height),
+      blob: resizedBlob,
+      url
+    };
+  } catch (err) {
+    URL.revokeObjectURL(url);
+    throw err;
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import {
+  describeModelChanges,
+  hasModelChanges,
+  outputClasses,
+  outputMapFor,
+  restoreClasses,
+  snapshotClasses
+} from '@/lib/model-classes';
+import { ImageSample, TrainingClass } from '@/types/ml-types';
+
+// Only sample ids matter here
+function trainingClass(id: string, name: string, sampleIds: string[] = []): TrainingClass {
+  return { id, name, color: `color-${id}`, samples: sampleIds.map(sampleId => ({ id: sampleId }) as ImageSample) };
+}
+
+const trained = snapshotClasses([trainingClass('a', 'Cat'), trainingClass('b', 'Dog'), trainingClass('c', 'Bird')]);
+
+describe('outputMapFor', () => {
+  it('maps every current class to the output trained for it, by id', () => {
+    const classes = [trainingClass('c', 'Parrot'), trainingClass('a', 'Cat')];
+
+    expect(outputMapFor(trained, classes)).toEqual([2, 0]);
+  });
+
+  it('maps classes added after training to null', () => {
+    const classes = [trainingClass('a', 'Cat'), trainingClass('d', 'Fish')];
+
+    expect(outputMapFor(trained, classes)).toEqual([0, null]);
+  });
+});
+
+describe('outputClasses', () => {
+  it('shows outputs under their current names and keeps deleted ones as removed', () => {
+    const classes = [trainingClass('a', 'Kitten'), trainingClass('c', 'Bird')];
+
+    expect(outputClasses(trained, classes)).toEqual([
+      { id: 'a', name: 'Kitten', color: 'color-a', removed: false },
+      { id: 'b', name: 'Dog', color: 'color-b', removed: true },
+      { id: 'c', name: 'Bird', color: 'color-c', removed: false }
+    ]);
+  });
+});
+
+describe('describeModelChanges', () => {
+  it('counts classes and samples added or removed since training', () => {
+    const classes = [trainingClass('a', 'Cat', ['1', '2', '5']), trainingClass('d', 'Fish', ['6'])];
+    const changes = describeModelChanges(trained, ['1', '2', '3', '4'], classes);
+
+    expect(changes).toEqual({ addedClasses: 1, removedClasses: 2, addedSamples: 2, removedSamples: 2 });
+    expect(hasModelChanges(changes)).toBe(true);
+  });
+
+  it('reports no changes for renamed or reordered classes', () => {
+    const classes = [trainingClass('c', 'Parrot', ['3']), trainingClass('b', 'Dog', ['2']), trainingClass('a', 'Cat', ['1'])];
+
+    expect(hasModelChanges(describeModelChanges(trained, ['1', '2', '3'], classes))).toBe(false);
+  });
+});
+
+describe('restoreClasses', () => {
+  it('keeps current classes with the same name and drops the rest', () => {
+    const current = [trainingClass('a', 'Cat', ['1']), trainingClass('x', 'Other', ['2'])];
+    const restored = restoreClasses([{ name: 'Cat', color: 'red' }, { name: 'Dog', color: 'blue' }], current);
+
+    expect(restored[0]).toEqual({ ...current[0], color: 'red' });
+    expect(restored[1]).toMatchObject({ name: 'Dog', color: 'blue', samples: [] });
+    expect(restored[1].id).not.toBe('x');
+  });
+});
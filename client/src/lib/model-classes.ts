@@ -0,0 +1,74 @@
+import { TrainingClass, TrainedClass, ModelChanges } from '@/types/ml-types';
+
+// Keeps a trained model usable while the classes are edited. The head's
+// outputs are matched to classes by id, so renaming or reordering classes
+// never needs retraining.
+
+// Assigned to new classes in turn
+export const CLASS_COLORS = [
+  'bg-green-500',
+  'bg-orange-500', 
+  'bg-blue-500',
+  'bg-purple-500',
+  'bg-pink-500',
+  'bg-indigo-500',
+  'bg-red-500',
+  'bg-yellow-500'
+];
+
+export function snapshotClasses(classes: TrainingClass[]): TrainedClass[] {
+  return classes.map(({ id, name, color }) => ({ id, name, color }));
+}
+
+// The head's outputs as the classes look now; deleted classes keep the
+// name they were trained under
+export function outputClasses(trained: TrainedClass[], classes: TrainingClass[]): Array<TrainedClass & { removed: boolean }> {
+  return trained.map(trainedClass => {
+    const current = classes.find(cls => cls.id === trainedClass.id);
+    return current
+      ? { id: current.id, name: current.name, color: current.color, removed: false }
+      : { ...trainedClass, removed: true };
+  });
+}
+
+// For every current class, the index of the head output trained for it
+export function outputMapFor(trained: TrainedClass[], classes: TrainingClass[]): Array<number | null> {
+  return classes.map(cls => {
+    const index = trained.findIndex(trainedClass => trainedClass.id === cls.id);
+    return index === -1 ? null : index;
+  });
+}
+
+export function describeModelChanges(
+  trained: TrainedClass[],
+  trainedSampleIds: string[],
+  classes: TrainingClass[]
+): ModelChanges {
+  const trainedClassIds = new Set(trained.map(cls => cls.id));
+  const classIds = new Set(classes.map(cls => cls.id));
+  const sampleIds = new Set(classes.flatMap(cls => cls.samples.map(sample => sample.id)));
+  const previousSampleIds = new Set(trainedSampleIds);
+
+  return {
+    addedClasses: classes.filter(cls => !trainedClassIds.has(cls.id)).length,
+    removedClasses: trained.filter(cls => !classIds.has(cls.id)).length,
+    addedSamples: Array.from(sampleIds).filter(id => !previousSampleIds.has(id)).length,
+    removedSamples: trainedSampleIds.filter(id => !sampleIds.has(id)).length
+  };
+}
+
+export function hasModelChanges(changes: ModelChanges): boolean {
+  return Object.values(changes).some(count => count > 0);
+}
+
+// Classes for an imported model's outputs. Current classes with the same name
+// keep their id and samples; the other current classes are dropped.
+export function restoreClasses(outputs: Array<Pick<TrainingClass, 'name' | 'color'>>, current: TrainingClass[]): TrainingClass[] {
+  const createdAt = Date.now();
+  return outputs.map((output, index) => {
+    const existing = current.find(cls => cls.name === output.name);
+    return existing
+      ? { ...existing, color: output.color }
+      : { id: `class-${createdAt}-${index}`, name: output.name, color: output.color, samples: [] };
+  });
+}
@@ -0,0 +1,91 @@
+import * as tf from '@tensorflow/tfjs';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { createClassifierHead, createModelMetadata, preprocessTensor } from '@/lib/ml-utils';
+import { createTeachableMachineFiles, isModelMetadata, isTeachableMachineMetadata } from '@/lib/model-export';
+import { BaseModelSpec } from '@/types/ml-types';
+
+const spec: BaseModelSpec = { id: 'test', name: 'Test', inputSize: 32, normalization: [-1, 1] };
+
+beforeAll(async () => {
+  await tf.setBackend('cpu');
+});
+
+function createBackbone(): tf.LayersModel {
+  const input = tf.input({ shape: [spec.inputSize, spec.inputSize, 3] });
+  const conv = tf.layers.conv2d({ filters: 8, kernelSize: 3, activation: 'relu' }).apply(input) as tf.SymbolicTensor;
+  return tf.model({ inputs: input, outputs: tf.layers.globalAveragePooling2d({}).apply(conv) as tf.SymbolicTensor });
+}
+
+// What @teachablemachine/image does before predicting: scale the short side
+// to imageSize, keep the centered square, then x / 127 - 1. With the short
+// side already at imageSize the scaling is a no-op.
+function loaderInput(pixels: tf.Tensor3D, imageSize: number): tf.Tensor {
+  const [height, width] = pixels.shape;
+  expect(Math.min(height, width)).toBe(imageSize);
+  const top = Math.floor((height - imageSize) / 2);
+  const left = Math.floor((width - imageSize) / 2);
+  return pixels.slice([top, left, 0], [imageSize, imageSize, 3]).toFloat().div(127).sub(1).expandDims(0);
+}
+
+describe('isTeachableMachineMetadata', () => {
+  it('accepts string labels with an image size', () => {
+    expect(isTeachableMachineMetadata({ labels: ['a', 'b'], imageSize: 224 })).toBe(true);
+    expect(isTeachableMachineMetadata({ labels: ['a'], imageSize: 224, userMetadata: { colors: [] } })).toBe(true);
+  });
+
+  it('rejects anything else', () => {
+    for (const content of [null, 'labels', ['a'], { labels: ['a'] }, { labels: [1], imageSize: 224 },
+      { labels: ['a'], imageSize: '224' }, { labels: ['a'], imageSize: 224, userMetadata: 'x' }]) {
+      expect(isTeachableMachineMetadata(content)).toBe(false);
+    }
+  });
+});
+
+describe('isModelMetadata', () => {
+  it('accepts the metadata the app writes', () => {
+    expect(isModelMetadata(createModelMetadata([{ name: 'a', color: 'bg-gray-500' }], spec))).toBe(true);
+  });
+
+  it('rejects metadata without a usable base model spec', () => {
+    for (const content of [null, { labels: ['a'] }, { labels: ['a'], baseModel: { ...spec, inputSize: '32' } },
+      { labels: ['a'], baseModel: { ...spec, normalization: [-1] } }, { labels: [1], baseModel: spec }]) {
+      expect(isModelMetadata(content)).toBe(false);
+    }
+  });
+});
+
+describe('createTeachableMachineFiles', () => {
+  it('predicts like the app for the Teachable Machine loader on a non-square image', async () => {
+    const featureExtractor = createBackbone();
+    const head = createClassifierHead(8, 3);
+    const metadata = createModelMetadata(
+      ['a', 'b', 'c'].map(name => ({ name, color: 'bg-gray-500' })),
+      spec
+    );
+    const files = await createTeachableMachineFiles(featureExtractor, head, spec, metadata, 'test');
+    const modelJson: tf.io.ModelJSON = JSON.parse(files['model.json']);
+    const exported = await tf.loadLayersModel(tf.io.fromMemory({
+      modelTopology: modelJson.modelTopology,
+      weightSpecs: modelJson.weightsManifest[0].weights,
+      weightData: files['weights.bin']
+    }));
+    const tmMetadata = JSON.parse(files['metadata.json']);
+    expect(isTeachableMachineMetadata(tmMetadata)).toBe(true);
+
+    for (const shape of [[32, 48, 3], [45, 32, 3]] as Array<[number, number, number]>) {
+      const pixels = tf.randomUniform(shape, 0, 255, 'int32', 7) as tf.Tensor3D;
+      const app = tf.tidy(() => head.predict(featureExtractor.predict(preprocessTensor(pixels, spec))) as tf.Tensor);
+      const loader = tf.tidy(() => exported.predict(loaderInput(pixels, tmMetadata.imageSize)) as tf.Tensor);
+      // Stretching the whole image, as before, feeds the model other pixels
+      const stretched = tf.tidy(() => {
+        const resized = tf.image.resizeBilinear(pixels, [spec.inputSize, spec.inputSize]).div(127.5).sub(1).expandDims(0);
+        return head.predict(featureExtractor.predict(resized)) as tf.Tensor;
+      });
+
+      const [appValues, loaderValues, stretchedValues] = [app, loader, stretched].map(tensor => Array.from(tensor.dataSync()));
+      appValues.forEach((value, index) => expect(loaderValues[index]).toBeCloseTo(value, 5));
+      expect(stretchedValues.some((value, index) => Math.abs(value - appValues[index]) > 1e-4)).toBe(true);
+      tf.dispose([pixels, app, loader, stretched]);
+    }
+  });
+});
@@ -0,0 +1,226 @@
+import * as tf from '@tensorflow/tfjs';
+import JSZip from 'jszip';
+import { BaseModelSpec, ModelMetadata } from '@/types/ml-types';
+import { serializeModel } from '@/lib/ml-utils';
+
+// Exports in the layout of Google Teachable Machine image projects, so the
+// official @teachablemachine/image loader can run our models:
+// model.json, weights.bin and metadata.json in one zip.
+
+const TM_PACKAGE_NAME = '@teachablemachine/image';
+// Loader and site versions whose metadata format this export follows
+const TM_PACKAGE_VERSION = '0.8.5';
+const TM_VERSION = '2.4.7';
+
+export interface TeachableMachineMetadata {
+  tfjsVersion: string;
+  tmVersion?: string;
+  packageVersion: string;
+  packageName: string;
+  timeStamp?: string;
+  userMetadata?: Partial<ModelMetadata>; // Our own metadata rides along here
+  modelName?: string;
+  labels: string[];
+  imageSize: number;
+}
+
+// The loader feeds a center-cropped imageSize square, cropped like
+// preprocessTensor, scaled with x / 127 - 1 and nothing else, so our own
+// normalization is folded into the model
+const TM_PIXEL_RANGE: [number, number] = [-1, 255 / 127 - 1];
+
+// Base model spec for models trained by Teachable Machine itself
+export function teachableMachineSpec(imageSize: number): BaseModelSpec {
+  return {
+    id: 'teachable-machine',
+    name: 'Teachable Machine',
+    inputSize: imageSize,
+    normalization: TM_PIXEL_RANGE,
+    custom: true
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+export function isTeachableMachineMetadata(content: unknown): content is TeachableMachineMetadata {
+  return isRecord(content) &&
+    isStringArray(content.labels) &&
+    typeof content.imageSize === 'number' &&
+    (content.userMetadata === undefined || isRecord(content.userMetadata));
+}
+
+function isBaseModelSpec(value: unknown): value is BaseModelSpec {
+  return isRecord(value) &&
+    typeof value.id === 'string' &&
+    typeof value.name === 'string' &&
+    typeof value.inputSize === 'number' &&
+    Array.isArray(value.normalization) &&
+    value.normalization.length === 2 &&
+    value.normalization.every(bound => typeof bound === 'number');
+}
+
+// Our own metadata file, with the base model spec its preprocessing needs
+export function isModelMetadata(content: unknown): content is ModelMetadata {
+  return isRecord(content) && isStringArray(content.labels) && isBaseModelSpec(content.baseModel);
+}
+
+export function fromTeachableMachineMetadata(metadata: TeachableMachineMetadata): ModelMetadata {
+  const own = metadata.userMetadata ?? {};
+  return {
+    labels: metadata.labels,
+    colors: own.colors ?? [],
+    baseModel: own.baseModel ?? teachableMachineSpec(metadata.imageSize),
+    training: own.training,
+    rejection: own.rejection,
+    createdAt: own.createdAt ?? metadata.timeStamp ?? new Date().toISOString()
+  };
+}
+
+// Maps an input pixel range to the one the base model expects with a frozen
+// 1x1 depthwise convolution, a layer every TensorFlow.js version reads
+function applyNormalization(input: tf.SymbolicTensor, spec: BaseModelSpec, inputRange: [number, number]) {
+  const [min, max] = spec.normalization;
+  const scale = (max - min) / (inputRange[1] - inputRange[0]);
+  const offset = min - inputRange[0] * scale;
+  const initialWeights = [tf.fill([1, 1, 3, 1], scale), tf.fill([3], offset)];
+  const layer = tf.layers.depthwiseConv2d({
+    kernelSize: 1,
+    depthMultiplier: 1,
+    useBias: true,
+    trainable: false,
+    weights: initialWeights,
+    name: 'base_model_normalization'
+  });
+  const output = layer.apply(input) as tf.SymbolicTensor;
+  tf.dispose(initialWeights);
+  return { layer, output };
+}
+
+// Image -> probabilities model for runtimes without our preprocessing: it
+// takes an inputSize square with pixels in `inputRange` and normalizes them
+// itself. The feature extractor and head stay shared; free the returned
+// normalization layer once the model is saved.
+export function composeNormalizedModel(
+  featureExtractor: tf.LayersModel,
+  head: tf.LayersModel,
+  spec: BaseModelSpec,
+  inputRange: [number, number]
+) {
+  const input = tf.input({ shape: [spec.inputSize, spec.inputSize, 3] });
+  const normalization = applyNormalization(input, spec, inputRange);
+  const features = featureExtractor.apply(normalization.output) as tf.SymbolicTensor;
+  const model = tf.model({ inputs: input, outputs: head.apply(features) as tf.SymbolicTensor });
+  return { model, normalization: normalization.layer };
+}
+
+export interface TeachableMachineFiles {
+  'model.json': string;
+  'weights.bin': ArrayBuffer;
+  'metadata.json': string;
+}
+
+export async function createTeachableMachineFiles(
+  featureExtractor: tf.LayersModel,
+  head: tf.LayersModel,
+  spec: BaseModelSpec,
+  metadata: ModelMetadata,
+  modelName: string
+): Promise<TeachableMachineFiles> {
+  const { model, normalization } = composeNormalizedModel(featureExtractor, head, spec, TM_PIXEL_RANGE);
+
+  let artifacts: tf.io.ModelArtifacts;
+  try {
+    artifacts = await serializeModel(model);
+  } finally {
+    // The feature extractor and head stay in use; only the new layer is freed
+    normalization.dispose();
+  }
+
+  const modelJson: tf.io.ModelJSON = {
+    modelTopology: artifacts.modelTopology as {},
+    format: artifacts.format,
+    generatedBy: artifacts.generatedBy,
+    convertedBy: artifacts.convertedBy,
+    weightsManifest: [{ paths: ['weights.bin'], weights: artifacts.weightSpecs ?? [] }]
+  };
+  const tmMetadata: TeachableMachineMetadata = {
+    tfjsVersion: tf.version.tfjs,
+    tmVersion: TM_VERSION,
+    packageVersion: TM_PACKAGE_VERSION,
+    packageName: TM_PACKAGE_NAME,
+    timeStamp: metadata.createdAt,
+    userMetadata: metadata,
+    modelName,
+    labels: metadata.labels,
+    imageSize: spec.inputSize
+  };
+
+  return {
+    'model.json': JSON.stringify(modelJson),
+    'weights.bin': tf.io.CompositeArrayBuffer.join(artifacts.weightData),
+    'metadata.json': JSON.stringify(tmMetadata, null, 2)
+  };
+}
+
+export async function createTeachableMachineZip(
+  featureExtractor: tf.LayersModel,
+  head: tf.LayersModel,
+  spec: BaseModelSpec,
+  metadata: ModelMetadata,
+  modelName: string
+): Promise<Blob> {
+  const files = await createTeachableMachineFiles(featureExtractor, head, spec, metadata, modelName);
+  const zip = new JSZip();
+  Object.entries(files).forEach(([name, content]) => zip.file(name, content));
+  return zip.generateAsync({ type: 'blob' });
+}
+
+// Zips are unpacked to their model.json, weight and metadata files
+async function expandZips(files: File[]): Promise<File[]> {
+  const expanded: File[] = [];
+  for (const file of files) {
+    if (!file.name.endsWith('.zip')) {
+      expanded.push(file);
+      continue;
+    }
+    const zip = await JSZip.loadAsync(file);
+    for (const entry of Object.values(zip.files)) {
+      if (entry.dir) continue;
+      const name = entry.name.split('/').pop() as string;
+      expanded.push(new File([await entry.async('blob')], name));
+    }
+  }
+  return expanded;
+}
+
+// Reads an exported model: model.json, its weight files and the optional
+// metadata file, loose or in a zip. JSON files are told apart by their
+// content; both our metadata and Teachable Machine's metadata.json are read.
+export async function readExportedModel(files: File[]): Promise<{ model: tf.LayersModel; metadata?: ModelMetadata }> {
+  const allFiles = await expandZips(files);
+  let modelJson: File | undefined;
+  let metadata: ModelMetadata | undefined;
+  for (const file of allFiles.filter(file => file.name.endsWith('.json'))) {
+    const content = JSON.parse(await file.text());
+    if (content.modelTopology) {
+      modelJson = file;
+    } else if (isTeachableMachineMetadata(content)) {
+      metadata = fromTeachableMachineMetadata(content);
+    } else if (Array.isArray(content.labels)) {
+      metadata = content as ModelMetadata;
+    }
+  }
+  if (!modelJson) {
+    throw new Error('model.json is required to import a model');
+  }
+
+  const weightFiles = allFiles.filter(file => !file.name.endsWith('.json'));
+  const model = await tf.loadLayersModel(tf.io.browserFiles([modelJson, ...weightFiles]));
+  return { model, metadata };
+}
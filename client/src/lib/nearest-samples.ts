@@ -0,0 +1,46 @@
+import { ImageSample, TrainingClass } from '@/types/ml-types';
+import { normalize } from '@/lib/open-set';
+
+// "This looks most like these training images": training samples ranked by
+// how close their base model embedding is to the input's.
+
+export interface NearestSample {
+  sample: ImageSample;
+  classId: string;
+  className: string;
+  color: string;
+  similarity: number; // Cosine similarity of the embeddings, up to 1
+}
+
+export const NEAREST_SAMPLE_COUNT = 5;
+
+export interface SampleIndex {
+  nearest: (embedding: number[], count?: number) => NearestSample[];
+}
+
+// Normalizes the samples' embeddings once, so live video can rank every
+// frame. Only samples embedded by the given base model are compared.
+export function createSampleIndex(classes: TrainingClass[], baseModelId: string): SampleIndex {
+  const entries = classes.flatMap(cls => cls.samples
+    .filter(sample => sample.embedding && sample.embeddingBaseModel === baseModelId)
+    .map(sample => ({
+      sample,
+      classId: cls.id,
+      className: cls.name,
+      color: cls.color,
+      vector: normalize(sample.embedding as number[])
+    })));
+
+  return {
+    nearest: (embedding, count = NEAREST_SAMPLE_COUNT) => {
+      const query = normalize(embedding);
+      return entries
+        .map(({ vector, ...entry }) => ({
+          ...entry,
+          similarity: vector.reduce((sum, value, index) => sum + value * query[index], 0)
+        }))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, count);
+    }
+  };
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyRejection,
+  computeOpenSetReference,
+  DEFAULT_REJECTION_CONFIG,
+  maxDistanceFor,
+  nearestCentroidDistance,
+  normalize
+} from '@/lib/open-set';
+import { Prediction, RejectionConfig } from '@/types/ml-types';
+
+const config: RejectionConfig = { ...DEFAULT_REJECTION_CONFIG, enabled: true };
+
+function predictions(...confidences: number[]): Prediction[] {
+  return confidences.map((confidence, classIndex) => ({ className: `class ${classIndex}`, confidence, classIndex }));
+}
+
+describe('applyRejection', () => {
+  it('leaves predictions alone when rejection is off', () => {
+    const input = predictions(30, 25);
+
+    expect(applyRejection(input, DEFAULT_REJECTION_CONFIG)).toBe(input);
+    expect(applyRejection(input, undefined)).toBe(input);
+  });
+
+  it('accepts a confident top class with a clear lead', () => {
+    const input = predictions(80, 15, 5);
+
+    expect(applyRejection(input, config)).toBe(input);
+  });
+
+  it('rejects a top class below the minimum confidence', () => {
+    const [top] = applyRejection(predictions(55, 30, 15), config);
+
+    expect(top.rejected).toBe('low_confidence');
+  });
+
+  it('rejects a top class too close to the runner-up', () => {
+    const [top, runnerUp] = applyRejection(predictions(62, 55), config);
+
+    expect(top.rejected).toBe('small_margin');
+    expect(runnerUp.rejected).toBeUndefined();
+  });
+
+  it('checks the margin only when there is a runner-up', () => {
+    const [top] = applyRejection(predictions(100), config);
+
+    expect(top.rejected).toBeUndefined();
+  });
+
+  it('rejects inputs beyond the maximum distance when the distance check is on', () => {
+    const withDistance = { ...config, distanceCheck: true };
+    const input = predictions(90, 10);
+
+    expect(applyRejection(input, withDistance, { value: 0.5, max: 0.3 })[0].rejected).toBe('far_from_training');
+    expect(applyRejection(input, withDistance, { value: 0.2, max: 0.3 })[0].rejected).toBeUndefined();
+    expect(applyRejection(input, withDistance, { value: 0.5 })[0].rejected).toBeUndefined();
+    expect(applyRejection(input, config, { value: 0.5, max: 0.3 })[0].rejected).toBeUndefined();
+  });
+});
+
+describe('open-set reference', () => {
+  const embeddings = [[1, 0], [2, 0.2], [0, 1], [0.1, 3]];
+  const labels = [0, 0, 1, 1];
+
+  it('builds one unit-length centroid per class', () => {
+    const { centroids } = computeOpenSetReference(embeddings, labels, 2);
+
+    expect(centroids).toHaveLength(2);
+    centroids.forEach(centroid => expect(Math.hypot(...centroid)).toBeCloseTo(1));
+    expect(centroids[0][0]).toBeGreaterThan(centroids[0][1]);
+    expect(centroids[1][1]).toBeGreaterThan(centroids[1][0]);
+  });
+
+  it('measures cosine distance to the nearest centroid, ignoring scale', () => {
+    const reference = computeOpenSetReference(embeddings, labels, 2);
+
+    expect(nearestCentroidDistance([5, 0.5], reference)).toBeLessThan(reference.calibratedDistance + 0.01);
+    expect(nearestCentroidDistance([-1, -1], reference)).toBeGreaterThan(1);
+  });
+
+  it('prefers an explicit maximum distance over the calibrated one', () => {
+    const reference = computeOpenSetReference(embeddings, labels, 2);
+
+    expect(maxDistanceFor(config, reference)).toBe(reference.calibratedDistance);
+    expect(maxDistanceFor({ ...config, maxDistance: 0.4 }, reference)).toBe(0.4);
+    expect(maxDistanceFor(config)).toBeUndefined();
+  });
+
+  it('normalizes vectors to unit length and leaves zero vectors as they are', () => {
+    expect(normalize([3, 4])).toEqual([0.6, 0.8]);
+    expect(normalize([0, 0])).toEqual([0, 0]);
+  });
+});
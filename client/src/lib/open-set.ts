@@ -0,0 +1,77 @@
+import { OpenSetReference, Prediction, RejectionConfig, RejectionReason } from '@/types/ml-types';
+
+// Softmax always picks a trained class, even for an empty desk. These rules
+// let a prediction come back as unknown: a weak or ambiguous top class, or an
+// input whose embedding is far from every class's training samples.
+
+export const DEFAULT_REJECTION_CONFIG: RejectionConfig = {
+  enabled: false,
+  minConfidence: 60,
+  minMargin: 10,
+  distanceCheck: false,
+};
+
+export const REJECTION_REASONS: Record<RejectionReason, string> = {
+  low_confidence: '信頼度がしきい値未満',
+  small_margin: '上位2クラスの差が小さい',
+  far_from_training: '学習画像のどれとも似ていない',
+};
+
+// Share of training samples the calibrated distance still accepts
+const CALIBRATION_PERCENTILE = 0.95;
+
+export function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+function cosineDistance(a: number[], normalizedB: number[]): number {
+  const normalizedA = normalize(a);
+  return 1 - normalizedA.reduce((sum, value, index) => sum + value * normalizedB[index], 0);
+}
+
+// Centroids of the training embeddings per label, and the distance within
+// which most training samples lie from their own centroid
+export function computeOpenSetReference(embeddings: number[][], labels: number[], numClasses: number): OpenSetReference {
+  const size = embeddings[0]?.length ?? 0;
+  const sums = Array.from({ length: numClasses }, () => new Array<number>(size).fill(0));
+  embeddings.forEach((embedding, index) => {
+    normalize(embedding).forEach((value, dim) => {
+      sums[labels[index]][dim] += value;
+    });
+  });
+  const centroids = sums.map(normalize);
+
+  const distances = embeddings
+    .map((embedding, index) => cosineDistance(embedding, centroids[labels[index]]))
+    .sort((a, b) => a - b);
+  const calibratedDistance = distances.length > 0
+    ? distances[Math.min(distances.length - 1, Math.floor(distances.length * CALIBRATION_PERCENTILE))]
+    : 0;
+  return { centroids, calibratedDistance };
+}
+
+export function nearestCentroidDistance(embedding: number[], reference: OpenSetReference): number {
+  return Math.min(...reference.centroids.map(centroid => cosineDistance(embedding, centroid)));
+}
+
+export function maxDistanceFor(config: RejectionConfig, reference?: OpenSetReference): number | undefined {
+  return config.maxDistance ?? reference?.calibratedDistance;
+}
+
+// Marks the top prediction as rejected when a rule applies. Predictions must
+// be sorted best first; distance is only checked when it is given.
+export function applyRejection(predictions: Prediction[], config: RejectionConfig | undefined, distance?: { value: number; max?: number }): Prediction[] {
+  if (!config?.enabled || predictions.length === 0) return predictions;
+  const [top, runnerUp] = predictions;
+
+  let rejected: RejectionReason | undefined;
+  if (top.confidence < config.minConfidence) {
+    rejected = 'low_confidence';
+  } else if (runnerUp && top.confidence - runnerUp.confidence < config.minMargin) {
+    rejected = 'small_margin';
+  } else if (config.distanceCheck && distance?.max !== undefined && distance.value > distance.max) {
+    rejected = 'far_from_training';
+  }
+  return rejected ? [{ ...top, rejected }, ...predictions.slice(1)] : predictions;
+}
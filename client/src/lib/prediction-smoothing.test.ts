@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { createPredictionSmoother, DEFAULT_SMOOTHING_CONFIG, SmoothingConfig } from '@/lib/prediction-smoothing';
+import { Prediction, RejectionReason } from '@/types/ml-types';
+
+// One frame, sorted best first as makePrediction returns it
+function frame(confidences: number[], rejected?: RejectionReason): Prediction[] {
+  const sorted = confidences
+    .map((confidence, classIndex) => ({ className: `class ${classIndex}`, confidence, classIndex }))
+    .sort((a, b) => b.confidence - a.confidence);
+  return rejected ? [{ ...sorted[0], rejected }, ...sorted.slice(1)] : sorted;
+}
+
+function smoother(overrides: Partial<SmoothingConfig>) {
+  return createPredictionSmoother({ ...DEFAULT_SMOOTHING_CONFIG, hysteresis: 0, ...overrides });
+}
+
+describe('createPredictionSmoother', () => {
+  it('passes frames through unchanged without smoothing', () => {
+    const [top, runnerUp] = smoother({ method: 'none' }).update(frame([30, 70]));
+
+    expect(top).toMatchObject({ classIndex: 1, confidence: 70 });
+    expect(runnerUp).toMatchObject({ classIndex: 0, confidence: 30 });
+  });
+
+  it('averages confidences over the moving window', () => {
+    const moving = smoother({ method: 'moving_average', windowSize: 2 });
+    moving.update(frame([100, 0]));
+    moving.update(frame([50, 50]));
+    const [top, runnerUp] = moving.update(frame([0, 100]));
+
+    expect(top).toMatchObject({ classIndex: 1, confidence: 75 });
+    expect(runnerUp).toMatchObject({ classIndex: 0, confidence: 25 });
+  });
+
+  it('starts the moving window over when the class count changes', () => {
+    const moving = smoother({ method: 'moving_average', windowSize: 3 });
+    moving.update(frame([60, 40]));
+    moving.update(frame([70, 30]));
+    const predictions = moving.update(frame([20, 30, 50]));
+
+    expect(predictions.every(prediction => Number.isFinite(prediction.confidence))).toBe(true);
+    expect(predictions[0]).toMatchObject({ classIndex: 2, confidence: 50 });
+  });
+
+  it('starts the exponential average over when the class count changes', () => {
+    const exponential = smoother({ method: 'exponential', alpha: 0.5 });
+    exponential.update(frame([100, 0, 0]));
+
+    expect(exponential.update(frame([10, 90]))[0]).toMatchObject({ classIndex: 1, confidence: 90 });
+  });
+
+  it('weights the newest frame by alpha in the exponential average', () => {
+    const exponential = smoother({ method: 'exponential', alpha: 0.25 });
+    exponential.update(frame([100, 0]));
+    const [top, runnerUp] = exponential.update(frame([0, 100]));
+
+    expect(top).toMatchObject({ classIndex: 0, confidence: 75 });
+    expect(runnerUp).toMatchObject({ classIndex: 1, confidence: 25 });
+  });
+
+  it('keeps the shown label until another class leads it by the hysteresis', () => {
+    const steady = smoother({ method: 'none', hysteresis: 10 });
+    steady.update(frame([60, 40]));
+
+    expect(steady.update(frame([46, 54]))[0].classIndex).toBe(0);
+    expect(steady.update(frame([40, 60]))[0].classIndex).toBe(1);
+  });
+
+  it('rejects only when most recent frames were rejected', () => {
+    const moving = smoother({ method: 'moving_average', windowSize: 3 });
+    moving.update(frame([80, 20]));
+
+    expect(moving.update(frame([50, 50], 'small_margin'))[0].rejected).toBeUndefined();
+    const [top] = moving.update(frame([40, 60], 'low_confidence'));
+    expect(top.rejected).toBe('low_confidence');
+  });
+
+  it('starts over after a reset', () => {
+    const exponential = smoother({ method: 'exponential', alpha: 0.1 });
+    exponential.update(frame([100, 0]));
+    exponential.reset();
+
+    expect(exponential.update(frame([0, 100]))[0]).toMatchObject({ classIndex: 1, confidence: 100 });
+  });
+});
@@ -0,0 +1,83 @@
+import { Prediction, RejectionReason } from '@/types/ml-types';
+
+// Steadies live predictions across video frames: confidences are averaged
+// over recent frames, and the top label only changes once another class
+// leads it by a clear margin.
+
+export type SmoothingMethod = 'none' | 'moving_average' | 'exponential';
+
+export interface SmoothingConfig {
+  method: SmoothingMethod;
+  windowSize: number; // Frames averaged by the moving average
+  alpha: number; // Weight of the newest frame in the exponential average
+  hysteresis: number; // Percentage points another class must lead the shown label by to replace it
+}
+
+export const DEFAULT_SMOOTHING_CONFIG: SmoothingConfig = {
+  method: 'exponential',
+  windowSize: 5,
+  alpha: 0.3,
+  hysteresis: 10,
+};
+
+export interface PredictionSmoother {
+  // Takes one frame's predictions and returns the smoothed ones, shown label first
+  update: (predictions: Prediction[]) => Prediction[];
+  reset: () => void;
+}
+
+// Frames are averaged by classIndex; the rejection of a frame counts as a
+// 0/1 signal averaged the same way, so "unknown" needs most recent frames
+export function createPredictionSmoother(config: SmoothingConfig): PredictionSmoother {
+  let history: number[][] = []; // Moving average window, per frame [...confidences, rejected]
+  let average: number[] | null = null; // Exponential average
+  let shownIndex: number | null = null;
+  let lastRejection: RejectionReason | undefined;
+
+  const smooth = (frame: number[]): number[] => {
+    switch (config.method) {
+      case 'moving_average':
+        // A retrain can change the class count mid-stream; older frames no longer line up
+        if (history.length > 0 && history[0].length !== frame.length) history = [];
+        history = [...history, frame].slice(-Math.max(1, config.windowSize));
+        return frame.map((_, index) => history.reduce((sum, values) => sum + values[index], 0) / history.length);
+      case 'exponential':
+        average = average && average.length === frame.length
+          ? average.map((value, index) => config.alpha * frame[index] + (1 - config.alpha) * value)
+          : frame;
+        return average;
+      default:
+        return frame;
+    }
+  };
+
+  return {
+    update: (predictions) => {
+      if (predictions.length === 0) return predictions;
+      const byIndex = [...predictions].sort((a, b) => a.classIndex - b.classIndex);
+      const rejected = predictions[0].rejected;
+      lastRejection = rejected ?? lastRejection;
+      const smoothed = smooth([...byIndex.map(prediction => prediction.confidence), rejected ? 1 : 0]);
+      const rejectedShare = smoothed[smoothed.length - 1];
+
+      const ranked = byIndex
+        .map((prediction, index) => ({ ...prediction, confidence: smoothed[index], rejected: undefined }))
+        .sort((a, b) => b.confidence - a.confidence);
+
+      // Keep the shown label until it is clearly beaten
+      const shown = ranked.find(prediction => prediction.classIndex === shownIndex);
+      if (!shown || ranked[0].confidence - shown.confidence > config.hysteresis) {
+        shownIndex = ranked[0].classIndex;
+      }
+      const top = ranked.find(prediction => prediction.classIndex === shownIndex) as Prediction;
+      const rest = ranked.filter(prediction => prediction !== top);
+      return [rejectedShare > 0.5 ? { ...top, rejected: lastRejection } : top, ...rest];
+    },
+    reset: () => {
+      history = [];
+      average = null;
+      shownIndex = null;
+      lastRejection = undefined;
+    }
+  };
+}
@@ -0,0 +1,86 @@
+import * as tf from '@tensorflow/tfjs';
+import { BaseModelSpec } from '@/types/ml-types';
+import { centerSquare, preprocessTensor } from '@/lib/ml-utils';
+
+// Gradient saliency (SmoothGrad): how strongly each input pixel moves the
+// chosen class's score, averaged over slightly noisy copies of the image so
+// the map shows regions rather than pixel noise.
+
+export interface SaliencyMap {
+  values: Float32Array; // size x size, row-major, scaled to [0, 1]
+  size: number; // The base model's input size
+  // The center square the model saw, as fractions of the image's width and height
+  area: { left: number; top: number; width: number; height: number };
+}
+
+const SMOOTHGRAD_SAMPLES = 8;
+// Noise as a share of the input range
+const SMOOTHGRAD_NOISE = 0.1;
+// Values above this percentile are clipped so a few hot pixels don't wash out the map
+const CLIP_PERCENTILE = 0.99;
+
+export async function computeSaliency(
+  featureExtractor: tf.LayersModel,
+  head: tf.LayersModel,
+  pixels: tf.Tensor3D,
+  spec: BaseModelSpec,
+  classIndex: number
+): Promise<SaliencyMap> {
+  const map = tf.tidy(() => {
+    const input = preprocessTensor(pixels, spec);
+    const [min, max] = spec.normalization;
+    const noisy = input
+      .tile([SMOOTHGRAD_SAMPLES, 1, 1, 1])
+      .add(tf.randomNormal([SMOOTHGRAD_SAMPLES, spec.inputSize, spec.inputSize, 3], 0, SMOOTHGRAD_NOISE * (max - min)));
+
+    // Sum of the class's probability over the copies; each copy gets its own gradient
+    const classScore = (x: tf.Tensor) => {
+      const features = featureExtractor.apply(x, { training: false }) as tf.Tensor;
+      const probabilities = head.apply(features, { training: false }) as tf.Tensor;
+      return probabilities.slice([0, classIndex], [-1, 1]).sum();
+    };
+    const gradients = tf.grad(classScore)(noisy);
+
+    // Strongest channel per pixel, averaged over the copies and lightly blurred
+    const perPixel = gradients.abs().max(-1).mean(0) as tf.Tensor2D;
+    return tf.avgPool(perPixel.expandDims(-1) as tf.Tensor3D, 5, 1, 'same').squeeze() as tf.Tensor2D;
+  });
+
+  const values = await map.data() as Float32Array;
+  map.dispose();
+
+  const sorted = Float32Array.from(values).sort();
+  const ceiling = sorted[Math.floor((sorted.length - 1) * CLIP_PERCENTILE)] || 1;
+  const [height, width] = pixels.shape;
+  const square = centerSquare(height, width);
+  return {
+    values: values.map(value => Math.min(1, value / ceiling)),
+    size: spec.inputSize,
+    area: { left: square.left / width, top: square.top / height, width: square.size / width, height: square.size / height }
+  };
+}
+
+// Blue (cold) through green and yellow to red (hot)
+function heatColor(value: number): [number, number, number] {
+  const channel = (offset: number) => Math.round(255 * Math.max(0, Math.min(1, 1.5 - Math.abs(4 * value - offset))));
+  return [channel(3), channel(2), channel(1)];
+}
+
+// Paints the map onto a canvas; cold regions stay mostly transparent
+export function drawHeatmap(saliency: SaliencyMap, canvas: HTMLCanvasElement): void {
+  const { size, values } = saliency;
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  const image = context.createImageData(size, size);
+  values.forEach((value, index) => {
+    const [r, g, b] = heatColor(value);
+    image.data[index * 4] = r;
+    image.data[index * 4 + 1] = g;
+    image.data[index * 4 + 2] = b;
+    image.data[index * 4 + 3] = Math.round(255 * Math.min(1, 0.25 + value));
+  });
+  context.putImageData(image, 0, 0);
+}
@@ -0,0 +1,239 @@
+import * as tf from '@tensorflow/tfjs';
+import JSZip from 'jszip';
+// The app's own TensorFlow.js build, served with the app and shipped in the zip
+import tfScriptUrl from '@tensorflow/tfjs/dist/tf.min.js?url';
+import { BaseModelSpec, ModelMetadata } from '@/types/ml-types';
+import { centerSquare, serializeModel } from '@/lib/ml-utils';
+import { composeNormalizedModel } from '@/lib/model-export';
+
+// A self-contained web page that runs a trained model on the webcam. The
+// model and TensorFlow.js are in the zip, so the page works offline from any
+// static file server (or straight from disk) without a build step.
+
+// The page feeds raw pixels; the model normalizes them itself, so app.js
+// only crops, with the app's own centerSquare, and resizes
+const PIXEL_RANGE: [number, number] = [0, 255];
+
+// Tailwind 500 shades of the class colors, for a page without Tailwind
+const CLASS_COLOR_HEX: Record<string, string> = {
+  'bg-green-500': '#22c55e',
+  'bg-orange-500': '#f97316',
+  'bg-blue-500': '#3b82f6',
+  'bg-purple-500': '#a855f7',
+  'bg-pink-500': '#ec4899',
+  'bg-indigo-500': '#6366f1',
+  'bg-red-500': '#ef4444',
+  'bg-yellow-500': '#eab308',
+  'bg-gray-500': '#6b7280',
+};
+
+function toBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  // Chunked to stay below the argument limit of String.fromCharCode
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(offset, offset + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const INDEX_HTML = (title: string) => `<!DOCTYPE html>
+<html lang="ja">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 0; padding: 24px; background: #f9fafb; color: #111827; }
+    main { max-width: 720px; margin: 0 auto; }
+    video { width: 100%; max-width: 480px; border-radius: 8px; background: #000; display: block; }
+    button { padding: 8px 16px; border: 0; border-radius: 6px; background: #2563eb; color: #fff; font-size: 14px; cursor: pointer; margin: 12px 0; }
+    button:disabled { background: #9ca3af; cursor: default; }
+    .row { display: flex; align-items: center; gap: 8px; margin: 6px 0; }
+    .label { width: 140px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+    .bar { flex: 1; height: 16px; background: #e5e7eb; border-radius: 8px; overflow: hidden; }
+    .fill { height: 100%; width: 0; transition: width 0.1s; }
+    .value { width: 56px; text-align: right; font-variant-numeric: tabular-nums; }
+    .top { font-weight: 600; }
+    #status { color: #6b7280; font-size: 14px; }
+    #verdict { font-size: 20px; font-weight: 600; margin: 12px 0; min-height: 28px; }
+  </style>
+</head>
+<body>
+  <main>
+    <h1>${escapeHtml(title)}</h1>
+    <p id="status">モデルを読み込んでいます...</p>
+    <button id="start" disabled>カメラを開始</button>
+    <video id="webcam" autoplay playsinline muted></video>
+    <p id="verdict"></p>
+    <div id="predictions"></div>
+  </main>
+  <script src="tf.min.js"></script>
+  <script src="model-data.js"></script>
+  <script src="app.js"></script>
+</body>
+</html>
+`;
+
+const APP_JS = `(function () {
+  var data = window.MODEL_DATA;
+  var metadata = data.metadata;
+  var rejection = metadata.rejection;
+  var status = document.getElementById('status');
+  var startButton = document.getElementById('start');
+  var video = document.getElementById('webcam');
+  var container = document.getElementById('predictions');
+  var verdict = document.getElementById('verdict');
+  var model = null;
+  var rows = [];
+
+  function decodeBase64(text) {
+    var binary = atob(text);
+    var bytes = new Uint8Array(binary.length);
+    for (var i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes.buffer;
+  }
+
+  var centerSquare = ${centerSquare.toString()};
+
+  // The model normalizes [0, 255] pixels itself; frames only need the
+  // training app's center crop and the model's input size
+  function preprocess(pixels) {
+    var inputSize = model.inputs[0].shape[1];
+    var square = centerSquare(pixels.shape[0], pixels.shape[1]);
+    var cropped = pixels.slice([square.top, square.left, 0], [square.size, square.size, 3]);
+    return tf.image.resizeBilinear(cropped, [inputSize, inputSize]).expandDims(0);
+  }
+
+  // The confidence and margin rules of the training app; the distance rule
+  // needs embeddings, which this model doesn't output
+  function rejectionReason(sorted) {
+    if (!rejection || !rejection.enabled) return null;
+    var top = sorted[0] * 100;
+    var runnerUp = sorted.length > 1 ? sorted[1] * 100 : null;
+    if (top < rejection.minConfidence) return '信頼度がしきい値未満';
+    if (runnerUp !== null && top - runnerUp < rejection.minMargin) return '上位2クラスの差が小さい';
+    return null;
+  }
+
+  metadata.labels.forEach(function (label, index) {
+    var row = document.createElement('div');
+    row.className = 'row';
+    row.innerHTML = '<span class="label"></span><span class="bar"><span class="fill"></span></span><span class="value">0%</span>';
+    row.querySelector('.label').textContent = label;
+    row.querySelector('.fill').style.background = data.colors[index] || '#6b7280';
+    container.appendChild(row);
+    rows.push(row);
+  });
+
+  function render(probabilities) {
+    var top = 0;
+    probabilities.forEach(function (p, i) { if (p > probabilities[top]) top = i; });
+    rows.forEach(function (row, i) {
+      var percent = (probabilities[i] * 100).toFixed(1) + '%';
+      row.querySelector('.fill').style.width = percent;
+      row.querySelector('.value').textContent = percent;
+      row.classList.toggle('top', i === top);
+    });
+    var sorted = probabilities.slice().sort(function (a, b) { return b - a; });
+    var reason = rejectionReason(sorted);
+    verdict.textContent = reason ? '不明（' + reason + '）' : metadata.labels[top];
+  }
+
+  function loop() {
+    if (video.readyState >= 2) {
+      var probabilities = tf.tidy(function () {
+        return model.predict(preprocess(tf.browser.fromPixels(video)));
+      });
+      probabilities.data().then(function (values) {
+        probabilities.dispose();
+        render(Array.from(values));
+        requestAnimationFrame(loop);
+      });
+    } else {
+      requestAnimationFrame(loop);
+    }
+  }
+
+  startButton.addEventListener('click', function () {
+    startButton.disabled = true;
+    navigator.mediaDevices.getUserMedia({ video: { width: 640, height: 480 }, audio: false })
+      .then(function (stream) {
+        video.srcObject = stream;
+        status.textContent = '予測中';
+        loop();
+      })
+      .catch(function (err) {
+        status.textContent = 'カメラを開始できませんでした: ' + err.message;
+        startButton.disabled = false;
+      });
+  });
+
+  tf.loadLayersModel(tf.io.fromMemory({
+    modelTopology: data.modelTopology,
+    weightSpecs: data.weightSpecs,
+    weightData: decodeBase64(data.weightData)
+  })).then(function (loaded) {
+    model = loaded;
+    status.textContent = 'カメラを開始すると予測が表示されます';
+    startButton.disabled = false;
+  }).catch(function (err) {
+    status.textContent = 'モデルを読み込めませんでした: ' + err.message;
+  });
+})();
+`;
+
+// Zip with index.html, app.js, tf.min.js and the model embedded in
+// model-data.js. The model has the base model's normalization built in.
+export async function createStandaloneAppZip(
+  featureExtractor: tf.LayersModel,
+  head: tf.LayersModel,
+  spec: BaseModelSpec,
+  metadata: ModelMetadata,
+  title: string
+): Promise<Blob> {
+  const response = await fetch(tfScriptUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to read TensorFlow.js for the app (${response.status})`);
+  }
+  const tfScript = await response.text();
+
+  const { model, normalization } = composeNormalizedModel(featureExtractor, head, spec, PIXEL_RANGE);
+  let artifacts: tf.io.ModelArtifacts;
+  try {
+    artifacts = await serializeModel(model);
+  } finally {
+    normalization.dispose();
+  }
+  const modelData = {
+    modelTopology: artifacts.modelTopology,
+    weightSpecs: artifacts.weightSpecs,
+    weightData: toBase64(tf.io.CompositeArrayBuffer.join(artifacts.weightData)),
+    metadata,
+    colors: metadata.colors.map(color => CLASS_COLOR_HEX[color] ?? '#6b7280')
+  };
+
+  const zip = new JSZip();
+  zip.file('index.html', INDEX_HTML(title));
+  zip.file('app.js', APP_JS);
+  zip.file('tf.min.js', tfScript);
+  zip.file('model-data.js', `window.MODEL_DATA = ${JSON.stringify(modelData)};\n`);
+  zip.file('README.txt', [
+    title,
+    '',
+    'index.html をブラウザで開くか、このフォルダを任意の静的ファイルサーバーに置いてください。',
+    'カメラを使うには https または localhost で配信する必要があります。',
+    'TensorFlow.js も含まれているため、インターネットに接続しなくても動きます。',
+    ''
+  ].join('\n'));
+  return zip.generateAsync({ type: 'blob' });
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it, vi } from 'vitest';
+import JSZip from 'jszip';
+import { readTeachableMachineProject } from '@/lib/tm-project';
+
+// Decoding needs a browser; a sample's id is the entry's text instead, and
+// "corrupt" fails like an undecodable image
+vi.mock('@/lib/ml-utils', () => ({
+  createImageSample: async (blob: Blob) => {
+    const text = await blob.text();
+    if (text === 'corrupt') throw new Error('decode failed');
+    return { id: text };
+  }
+}));
+
+async function project(files: Record<string, string>): Promise<Blob> {
+  const zip = new JSZip();
+  Object.entries(files).forEach(([path, content]) => zip.file(path, content));
+  return zip.generateAsync({ type: 'blob' });
+}
+
+async function read(files: Record<string, string>) {
+  const { classes, skipped } = await readTeachableMachineProject(await project(files), index => `color-${index}`);
+  return {
+    classes: classes.map(cls => ({ name: cls.name, color: cls.color, samples: cls.samples.map(sample => sample.id) })),
+    skipped
+  };
+}
+
+describe('readTeachableMachineProject', () => {
+  it('places samples listed in the manifest', async () => {
+    const { classes, skipped } = await read({
+      'manifest.json': JSON.stringify({ classes: [{ name: 'Cat', samples: ['images/a.png'] }, { name: 'Dog', files: ['b.png'] }] }),
+      'images/a.png': 'a',
+      'images/b.png': 'b'
+    });
+
+    expect(classes).toEqual([
+      { name: 'Cat', color: 'color-0', samples: ['a'] },
+      { name: 'Dog', color: 'color-1', samples: ['b'] }
+    ]);
+    expect(skipped).toEqual([]);
+  });
+
+  it('accepts a labels list and places samples by class folder or index', async () => {
+    const { classes } = await read({
+      'manifest.json': JSON.stringify({ labels: ['Cat', 'Dog'] }),
+      'Cat/1.png': 'folder by name',
+      '1/2.png': 'folder by index',
+      '0-3.png': 'indexed name'
+    });
+
+    expect(classes.map(cls => cls.samples)).toEqual([['indexed name', 'folder by name'], ['folder by index']]);
+  });
+
+  it('falls back to folders as classes without a manifest, in numeric order', async () => {
+    const { classes } = await read({
+      'class10/a.png': 'a',
+      'class9/b.png': 'b'
+    });
+
+    expect(classes.map(cls => cls.name)).toEqual(['class9', 'class10']);
+  });
+
+  it('names unnamed manifest classes by position', async () => {
+    const { classes } = await read({
+      'manifest.json': JSON.stringify({ classes: [{}, { label: 'Dog' }] }),
+      '0/a.png': 'a'
+    });
+
+    expect(classes.map(cls => cls.name)).toEqual(['Class 1', 'Dog']);
+  });
+
+  it('ignores manifest values of the wrong type', async () => {
+    const { classes } = await read({
+      'manifest.json': JSON.stringify({ classes: [7, { name: 'Cat', samples: ['a.png', 3] }] }),
+      'a.png': 'a'
+    });
+
+    expect(classes).toEqual([
+      { name: 'Class 1', color: 'color-0', samples: [] },
+      { name: 'Cat', color: 'color-1', samples: ['a'] }
+    ]);
+  });
+
+  it('reports entries it cannot place instead of failing', async () => {
+    const { classes, skipped } = await read({
+      'manifest.json': JSON.stringify({ classes: [{ name: 'Cat', samples: ['a.png', 'missing.png'] }] }),
+      'a.png': 'a',
+      'Cat/broken.png': 'corrupt',
+      'stray/c.png': 'c',
+      'notes.txt': 'text',
+      'model.json': '{}'
+    });
+
+    expect(classes[0].samples).toEqual(['a']);
+    expect(skipped).toEqual(expect.arrayContaining([
+      { path: 'notes.txt', reason: 'Not an image' },
+      { path: 'Cat/broken.png', reason: 'The image could not be decoded' },
+      { path: 'stray/c.png', reason: 'No class in the manifest matches this image' },
+      { path: 'missing.png', reason: 'Listed in the manifest but missing from the archive' }
+    ]));
+    expect(skipped).toHaveLength(4);
+  });
+
+  it('reports a manifest that is not valid JSON', async () => {
+    const { classes, skipped } = await read({
+      'manifest.json': '{ not json',
+      'Cat/a.png': 'a'
+    });
+
+    expect(classes.map(cls => cls.name)).toEqual(['Cat']);
+    expect(skipped).toEqual([{ path: 'manifest.json', reason: 'The manifest is not valid JSON' }]);
+  });
+
+  it('fails when it finds no classes at all', async () => {
+    await expect(read({ 'a.png': 'a' })).rejects.toThrow('No classes found');
+  });
+});
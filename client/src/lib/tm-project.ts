@@ -0,0 +1,138 @@
+import JSZip from 'jszip';
+import { TrainingClass } from '@/types/ml-types';
+import { createImageSample } from '@/lib/ml-utils';
+
+// Reads image projects saved from Google Teachable Machine (.tm files): a zip
+// of sample images plus a manifest that names the classes. The manifest
+// layout has changed between versions, so every known variant is accepted and
+// anything that cannot be placed is reported instead of failing the import.
+
+export interface SkippedEntry {
+  path: string;
+  reason: string;
+}
+
+export interface TeachableMachineProject {
+  classes: TrainingClass[];
+  skipped: SkippedEntry[];
+}
+
+interface ManifestClass {
+  name: string;
+  samples?: string[]; // Entry names, when the manifest lists them
+}
+
+const IMAGE_EXTENSION = /\.(png|jpe?g|gif|webp|bmp)$/i;
+// Files that belong to the project but are not samples
+const PROJECT_FILES = /(^|\/)(manifest|metadata|model)\.json$|\.bin$|(^|\/)(__MACOSX|\.DS_Store)/;
+// "<class index>-<sample index>.png", the naming used for samples in flat archives
+const INDEXED_SAMPLE = /(?:^|\/)(\d+)-(\d+)\.[a-z]+$/i;
+
+function baseName(path: string): string {
+  return path.split('/').pop() as string;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseManifestClasses(manifest: unknown): ManifestClass[] {
+  if (!isRecord(manifest)) return [];
+  const entries: unknown[] = Array.isArray(manifest.classes) ? manifest.classes
+    : Array.isArray(manifest.labels) ? manifest.labels
+    : [];
+
+  return entries.map((entry, index) => {
+    if (typeof entry === 'string') return { name: entry };
+    const fields = isRecord(entry) ? entry : {};
+    const samples = fields.samples ?? fields.files ?? fields.images;
+    return {
+      name: String(fields.name ?? fields.label ?? `Class ${index + 1}`),
+      samples: Array.isArray(samples) ? samples.filter((sample): sample is string => typeof sample === 'string') : undefined
+    };
+  });
+}
+
+// Index of the class an image entry belongs to, or -1
+function classIndexFor(path: string, classes: ManifestClass[]): number {
+  const listed = classes.findIndex(cls => cls.samples?.some(sample => sample === path || baseName(sample) === baseName(path)));
+  if (listed !== -1) return listed;
+
+  // Per-class folders, named after the class or its position
+  const folder = path.split('/').slice(-2, -1)[0];
+  if (folder !== undefined) {
+    const byName = classes.findIndex(cls => cls.name === folder);
+    if (byName !== -1) return byName;
+    if (/^\d+$/.test(folder) && Number(folder) < classes.length) return Number(folder);
+  }
+
+  const indexed = path.match(INDEXED_SAMPLE);
+  if (indexed && Number(indexed[1]) < classes.length) return Number(indexed[1]);
+  return -1;
+}
+
+// Numeric-aware, so "10.png" sorts after "9.png"
+const compareEntries = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+export async function readTeachableMachineProject(
+  file: Blob,
+  colorFor: (classIndex: number) => string
+): Promise<TeachableMachineProject> {
+  const zip = await JSZip.loadAsync(file);
+  const entries = Object.values(zip.files).filter(entry => !entry.dir);
+  const skipped: SkippedEntry[] = [];
+
+  const manifestEntry = entries.find(entry => baseName(entry.name) === 'manifest.json');
+  let manifestClasses: ManifestClass[] = [];
+  if (manifestEntry) {
+    try {
+      manifestClasses = parseManifestClasses(JSON.parse(await manifestEntry.async('string')));
+    } catch (err) {
+      skipped.push({ path: manifestEntry.name, reason: 'The manifest is not valid JSON' });
+    }
+  }
+
+  const images = entries.filter(entry => IMAGE_EXTENSION.test(entry.name)).sort((a, b) => compareEntries(a.name, b.name));
+  entries
+    .filter(entry => !IMAGE_EXTENSION.test(entry.name) && entry !== manifestEntry && !PROJECT_FILES.test(entry.name))
+    .forEach(entry => skipped.push({ path: entry.name, reason: 'Not an image' }));
+
+  // Without class names in the manifest, folders stand in for classes
+  if (manifestClasses.length === 0) {
+    const folders = Array.from(new Set(images.map(entry => entry.name.split('/').slice(-2, -1)[0]).filter(Boolean)));
+    manifestClasses = folders.sort(compareEntries).map(name => ({ name }));
+  }
+  if (manifestClasses.length === 0) {
+    throw new Error('No classes found: the archive has no manifest and no class folders');
+  }
+
+  const createdAt = Date.now();
+  const classes: TrainingClass[] = manifestClasses.map((cls, index) => ({
+    id: `class-${createdAt}-${index}`,
+    name: cls.name,
+    color: colorFor(index),
+    samples: []
+  }));
+
+  for (const entry of images) {
+    const classIndex = classIndexFor(entry.name, manifestClasses);
+    if (classIndex === -1) {
+      skipped.push({ path: entry.name, reason: 'No class in the manifest matches this image' });
+      continue;
+    }
+    try {
+      classes[classIndex].samples.push(await createImageSample(await entry.async('blob')));
+    } catch (err) {
+      skipped.push({ path: entry.name, reason: 'The image could not be decoded' });
+    }
+  }
+
+  // Samples the manifest lists but the archive lacks
+  manifestClasses.forEach(cls => cls.samples?.forEach(sample => {
+    if (!images.some(entry => entry.name === sample || baseName(entry.name) === baseName(sample))) {
+      skipped.push({ path: sample, reason: 'Listed in the manifest but missing from the archive' });
+    }
+  }));
+
+  return { classes, skipped };
+}
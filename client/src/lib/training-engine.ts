@@ -0,0 +1,177 @@
+import * as tf from '@tensorflow/tfjs';
+import {
+  BaseModelSpec,
+  ImageSample,
+  TrainingConfig,
+  TrainingProgress,
+  TrainingRecord,
+  CrossValidationReport
+} from '@/types/ml-types';
+import { serializeModel, deserializeModel } from '@/lib/ml-utils';
+import { TrainingJobCallbacks, HeadWarmStart } from '@/lib/training-pipeline';
+import {
+  WorkerSample,
+  TrainingWorkerRequest,
+  TrainingWorkerResponse,
+  SerializedWarmStart,
+  artifactBuffers
+} from '@/workers/training-protocol';
+
+export interface TrainingEngineResult {
+  progress: TrainingProgress | null;
+  crossValidation?: CrossValidationReport;
+  cancelled?: boolean;
+  skippedSampleIds: string[]; // Samples the worker could not embed; trained without them
+  // Absent when cross-validation ran without training a final model, or when
+  // the run was cancelled without keeping its best weights
+  trained?: {
+    head: tf.LayersModel;
+    tunedBaseModel?: tf.LayersModel;
+    record: TrainingRecord;
+  };
+}
+
+// Main-thread handle on the training worker
+export interface TrainingEngine {
+  loadBaseModel: (baseModel: tf.LayersModel, spec: BaseModelSpec) => Promise<void>;
+  embed: (samples: ImageSample[]) => Promise<Map<string, number[]>>;
+  train: (
+    samples: WorkerSample[],
+    classNames: string[],
+    config: TrainingConfig,
+    callbacks?: TrainingJobCallbacks,
+    warmStart?: HeadWarmStart
+  ) => Promise<TrainingEngineResult>;
+  // Steer the running training request; no-ops when nothing is training
+  pause: () => void;
+  resume: () => void;
+  cancel: (keepBestWeights: boolean) => void;
+  terminate: () => void;
+}
+
+interface PendingRequest {
+  resolve: (response: TrainingWorkerResponse) => void;
+  reject: (error: Error) => void;
+  onUpdate?: (response: TrainingWorkerResponse) => void;
+}
+
+// Responses that finish a request; everything else is a progress update
+const FINAL_RESPONSES: Array<TrainingWorkerResponse['type']> = ['base_model_loaded', 'embeddings', 'trained', 'error'];
+
+export function sampleBlob(sample: ImageSample): Promise<Blob> {
+  return fetch(sample.url).then(response => response.blob());
+}
+
+export function createTrainingEngine(): TrainingEngine {
+  const worker = new Worker(new URL('../workers/training.worker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, PendingRequest>();
+  let nextRequestId = 1;
+  let activeTrainingId: number | null = null;
+  // Embedding and training wait for the latest base model to reach the worker
+  let baseModelReady: Promise<void> = Promise.resolve();
+
+  worker.onmessage = (event: MessageEvent<TrainingWorkerResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.requestId);
+    if (!request) return;
+
+    if (!FINAL_RESPONSES.includes(response.type)) {
+      request.onUpdate?.(response);
+      return;
+    }
+    pending.delete(response.requestId);
+    if (response.type === 'error') {
+      request.reject(new Error(response.message));
+    } else {
+      request.resolve(response);
+    }
+  };
+
+  worker.onerror = (event) => {
+    console.error('Training worker crashed:', event.message);
+    pending.forEach(request => request.reject(new Error(event.message || 'Training worker crashed')));
+    pending.clear();
+  };
+
+  const send = (
+    request: TrainingWorkerRequest,
+    transfer: Transferable[] = [],
+    onUpdate?: (response: TrainingWorkerResponse) => void
+  ): Promise<TrainingWorkerResponse> => {
+    return new Promise((resolve, reject) => {
+      pending.set(request.requestId, { resolve, reject, onUpdate });
+      worker.postMessage(request, transfer);
+    });
+  };
+
+  const control = (action: 'pause' | 'resume' | 'cancel', keepBestWeights?: boolean) => {
+    if (activeTrainingId === null) return;
+    const request: TrainingWorkerRequest = { type: 'control', requestId: activeTrainingId, action, keepBestWeights };
+    worker.postMessage(request);
+  };
+
+  const loadBaseModel = (baseModel: tf.LayersModel, spec: BaseModelSpec) => {
+    baseModelReady = (async () => {
+      const artifacts = await serializeModel(baseModel);
+      await send({ type: 'load_base_model', requestId: nextRequestId++, artifacts, spec }, artifactBuffers(artifacts));
+    })();
+    return baseModelReady;
+  };
+
+  const embed = async (samples: ImageSample[]) => {
+    await baseModelReady;
+    const withBlobs = await Promise.all(samples.map(async sample => ({ id: sample.id, blob: await sampleBlob(sample) })));
+    const response = await send({ type: 'embed', requestId: nextRequestId++, samples: withBlobs });
+    return new Map(response.type === 'embeddings' ? response.embeddings : []);
+  };
+
+  const train = async (
+    samples: WorkerSample[],
+    classNames: string[],
+    config: TrainingConfig,
+    callbacks: TrainingJobCallbacks = {},
+    warmStart?: HeadWarmStart
+  ): Promise<TrainingEngineResult> => {
+    await baseModelReady;
+    const serializedWarmStart: SerializedWarmStart | undefined = warmStart && {
+      head: await serializeModel(warmStart.head),
+      outputMap: warmStart.outputMap
+    };
+    const requestId = nextRequestId++;
+    activeTrainingId = requestId;
+    const request: TrainingWorkerRequest = { type: 'train', requestId, samples, classNames, config, warmStart: serializedWarmStart };
+    const response = await send(request, artifactBuffers(serializedWarmStart?.head), update => {
+      if (update.type === 'epoch') callbacks.onEpochEnd?.(update.progress, update.entry);
+      if (update.type === 'fold_start') callbacks.onFoldStart?.(update.fold, update.totalFolds);
+      if (update.type === 'cross_validation') callbacks.onCrossValidation?.(update.report);
+    }).finally(() => {
+      if (activeTrainingId === requestId) activeTrainingId = null;
+    });
+    if (response.type !== 'trained') {
+      throw new Error(`Unexpected training worker response: ${response.type}`);
+    }
+
+    const { trained } = response.result;
+    return {
+      progress: response.result.progress,
+      crossValidation: response.result.crossValidation,
+      cancelled: response.result.cancelled,
+      skippedSampleIds: response.result.skippedSampleIds,
+      trained: trained && {
+        head: await deserializeModel(trained.head),
+        tunedBaseModel: trained.tunedBaseModel && await deserializeModel(trained.tunedBaseModel),
+        record: trained.record
+      }
+    };
+  };
+
+  return {
+    loadBaseModel,
+    embed,
+    train,
+    pause: () => control('pause'),
+    resume: () => control('resume'),
+    cancel: keepBestWeights => control('cancel', keepBestWeights),
+    terminate: () => worker.terminate()
+  };
+}
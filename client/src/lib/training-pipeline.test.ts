@@ -0,0 +1,213 @@
+import * as tf from '@tensorflow/tfjs';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { composeTransferModel, createClassifierHead, DEFAULT_TRAINING_CONFIG } from '@/lib/ml-utils';
+import { stratifiedKFold, stratifiedSplit } from '@/lib/dataset';
+import { crossValidate, EmbeddedRow, fineTune, runTrainingJob, trainHead, TrainingSource } from '@/lib/training-pipeline';
+import { BalancingStrategy, BaseModelSpec, TrainingConfig } from '@/types/ml-types';
+
+const config: TrainingConfig = { ...DEFAULT_TRAINING_CONFIG, batchSize: 4, seed: 1 };
+const spec: BaseModelSpec = { id: 'test', name: 'Test', inputSize: 8, normalization: [-1, 1] };
+
+beforeAll(async () => {
+  await tf.setBackend('cpu');
+});
+
+// A tiny convolutional backbone with batch normalization between the convolutions
+function createBackbone(): tf.LayersModel {
+  const input = tf.input({ shape: [8, 8, 3] });
+  let x = tf.layers.conv2d({ filters: 4, kernelSize: 3, name: 'conv_1' }).apply(input) as tf.SymbolicTensor;
+  x = tf.layers.batchNormalization({ name: 'bn_1' }).apply(x) as tf.SymbolicTensor;
+  x = tf.layers.conv2d({ filters: 4, kernelSize: 3, name: 'conv_2' }).apply(x) as tf.SymbolicTensor;
+  x = tf.layers.batchNormalization({ name: 'bn_2' }).apply(x) as tf.SymbolicTensor;
+  const features = tf.layers.globalAveragePooling2d({}).apply(x) as tf.SymbolicTensor;
+  const backbone = tf.model({ inputs: input, outputs: features });
+  backbone.trainable = false;
+  return backbone;
+}
+
+// Two classes told apart by the first feature
+function embeddedRows(counts: number[]): EmbeddedRow[] {
+  return counts.flatMap((count, label) =>
+    Array.from({ length: count }, (_, i) => ({ id: `${label}-${i}`, label, embedding: [label * 2 - 1, i / count] }))
+  );
+}
+
+const weightsOf = (layer: tf.layers.Layer) => layer.getWeights().map(weight => Array.from(weight.dataSync()));
+
+describe('fineTune', () => {
+  it('trains the unfrozen layers without touching batch normalization statistics', async () => {
+    const backbone = createBackbone();
+    const transferModel = composeTransferModel(backbone, createClassifierHead(4, 2, config));
+    // Far from the fresh moving statistics, so any update would show
+    const images = tf.randomNormal([12, 8, 8, 3], 5, 3, 'float32', 1) as tf.Tensor4D;
+    const labels = Array.from({ length: 12 }, (_, i) => i % 2);
+    const batchNorms = [backbone.getLayer('bn_1'), backbone.getLayer('bn_2')];
+    const statisticsBefore = batchNorms.map(weightsOf);
+    const convBefore = weightsOf(backbone.getLayer('conv_2'));
+
+    const run = await fineTune(
+      transferModel,
+      { images, labels, ids: labels.map((_, i) => `sample-${i}`) },
+      undefined,
+      ['a', 'b'],
+      { ...config, fineTuning: { enabled: true, unfrozenLayers: 1, epochs: 3, learningRate: 0.01 } },
+      5
+    );
+
+    expect(run.unfrozenLayers).toEqual(['conv_2']);
+    expect(run.history.map(entry => entry.epoch)).toEqual([6, 7, 8]);
+    expect(run.history.every(entry => entry.phase === 'fine_tune' && Number.isFinite(entry.loss))).toBe(true);
+    expect(batchNorms.map(weightsOf)).toEqual(statisticsBefore);
+    expect(weightsOf(backbone.getLayer('conv_2'))).not.toEqual(convBefore);
+    images.dispose();
+  });
+
+  it('scores the tuned model on the validation images', async () => {
+    const transferModel = composeTransferModel(createBackbone(), createClassifierHead(4, 2, config));
+    const images = tf.randomNormal([8, 8, 8, 3], 0, 1, 'float32', 2) as tf.Tensor4D;
+    const labels = [0, 1, 0, 1, 0, 1, 0, 1];
+    const batch = { images, labels, ids: labels.map((_, i) => `sample-${i}`) };
+
+    const run = await fineTune(transferModel, batch, batch, ['a', 'b'], config, 0);
+
+    expect(run.history).toHaveLength(config.fineTuning.epochs);
+    expect(run.history.every(entry => entry.valLoss !== undefined && entry.valAccuracy !== undefined)).toBe(true);
+    expect(run.evaluation?.sampleCount).toBe(8);
+    images.dispose();
+  });
+});
+
+describe('trainHead balancing', () => {
+  // Identical embeddings leave only the output bias to learn, which settles on
+  // the (weighted) class frequencies: 10% for the minority class unbalanced
+  async function train(balancing: BalancingStrategy) {
+    const rows = embeddedRows([18, 2]).map(row => ({ ...row, embedding: [0, 0] }));
+    const trainedRows: number[] = [];
+    const run = await trainHead(rows, [], ['a', 'b'], {
+      ...config,
+      balancing,
+      // Full-batch gradient descent, so the bias converges without noise
+      optimizer: 'sgd',
+      epochs: 60,
+      learningRate: 1,
+      batchSize: 64,
+      dropout: 0
+    }, {
+      onEpochEnd: (_, { samplesProcessed }) => trainedRows.push(samplesProcessed)
+    });
+    const minorityShare = tf.tidy(() => (run.head.predict(tf.zeros([1, 2])) as tf.Tensor).dataSync()[1]);
+    run.head.dispose();
+    return { minorityShare, trainedRows: trainedRows[0] };
+  }
+
+  it('learns the skewed class frequencies without balancing', async () => {
+    const { minorityShare, trainedRows } = await train('none');
+
+    expect(trainedRows).toBe(20);
+    expect(minorityShare).toBeLessThan(0.2);
+  });
+
+  it('weights the minority class up to an even share', async () => {
+    const { minorityShare, trainedRows } = await train('classWeights');
+
+    expect(trainedRows).toBe(20);
+    expect(minorityShare).toBeCloseTo(0.5, 1);
+  });
+
+  it('oversamples the minority class up to the majority', async () => {
+    const { minorityShare, trainedRows } = await train('oversample');
+
+    expect(trainedRows).toBe(36);
+    expect(minorityShare).toBeCloseTo(0.5, 1);
+  });
+
+  it('undersamples the majority class down to the minority', async () => {
+    const { minorityShare, trainedRows } = await train('undersample');
+
+    expect(trainedRows).toBe(4);
+    expect(minorityShare).toBeCloseTo(0.5, 1);
+  });
+});
+
+describe('crossValidate', () => {
+  const cvConfig: TrainingConfig = {
+    ...config,
+    epochs: 2,
+    crossValidation: { enabled: true, folds: 4, trainFinalModel: false }
+  };
+
+  // Rows each fold's head trained on, read from the epoch callbacks
+  async function trainedRowCounts(trainingConfig: TrainingConfig, rows: EmbeddedRow[]) {
+    const counts: number[] = [];
+    const report = await crossValidate(rows, ['a', 'b'], trainingConfig, {
+      onFoldStart: () => counts.push(0),
+      onEpochEnd: (_, { samplesProcessed }) => {
+        counts[counts.length - 1] = samplesProcessed;
+      }
+    });
+    return { report, counts };
+  }
+
+  it('scores every row exactly once, on the stratified folds', async () => {
+    const rows = embeddedRows([8, 4]);
+
+    const report = await crossValidate(rows, ['a', 'b'], cvConfig);
+
+    const scoredIds = report!.folds.map(fold => fold.cellSampleIds.flat(2).sort());
+    const expectedIds = stratifiedKFold(rows, 4, cvConfig.seed).map(fold => fold.map(row => row.id).sort());
+    expect(scoredIds).toEqual(expectedIds);
+    expect(scoredIds.flat().sort()).toEqual(rows.map(row => row.id).sort());
+  });
+
+  it('trains on all other folds without early stopping', async () => {
+    const { counts } = await trainedRowCounts(cvConfig, embeddedRows([8, 4]));
+
+    expect(counts).toEqual([9, 9, 9, 9]);
+  });
+
+  it('holds a validation split of the training folds out for early stopping', async () => {
+    const rows = embeddedRows([8, 4]);
+    const earlyStoppingConfig = { ...cvConfig, earlyStopping: { ...cvConfig.earlyStopping, enabled: true } };
+
+    const { counts } = await trainedRowCounts(earlyStoppingConfig, rows);
+
+    const folds = stratifiedKFold(rows, 4, cvConfig.seed);
+    const expected = folds.map((_, fold) => {
+      const trainRows = folds.filter((_, index) => index !== fold).flat();
+      return stratifiedSplit(trainRows, cvConfig.validationSplit, cvConfig.seed + fold).train.length;
+    });
+    expect(counts).toEqual(expected);
+    expect(counts.every(count => count < 9)).toBe(true);
+  });
+});
+
+describe('runTrainingJob', () => {
+  function source(id: string, label: number, decodes = true): TrainingSource {
+    return {
+      id,
+      label,
+      loadPixels: async () => {
+        if (!decodes) throw new Error('Cannot decode');
+        return tf.randomUniform([10, 12, 3], 0, 255, 'float32', label + 1) as tf.Tensor3D;
+      }
+    };
+  }
+
+  it('trains without the samples it cannot embed and reports them', async () => {
+    const backbone = createBackbone();
+    const sources = [source('a-1', 0), source('a-2', 0, false), source('b-1', 1), source('b-2', 1)];
+
+    const result = await runTrainingJob(backbone, backbone, spec, sources, ['a', 'b'], { ...config, epochs: 2 });
+
+    expect(result.skippedSampleIds).toEqual(['a-2']);
+    expect(result.trained).toBeDefined();
+  });
+
+  it('fails when a class has no usable samples left', async () => {
+    const backbone = createBackbone();
+    const sources = [source('a-1', 0), source('b-1', 1, false), source('c-1', 2, false)];
+
+    await expect(runTrainingJob(backbone, backbone, spec, sources, ['a', 'b', 'c'], config))
+      .rejects.toThrow('No usable samples left in "b", "c"');
+  });
+});
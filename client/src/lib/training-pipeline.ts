@@ -0,0 +1,584 @@
+import * as tf from '@tensorflow/tfjs';
+import {
+  BaseModelSpec,
+  TrainingConfig,
+  TrainingHistoryEntry,
+  TrainingPhase,
+  TrainingProgress,
+  TrainingRecord,
+  TrainingStopReason,
+  EvaluationReport,
+  CrossValidationReport,
+  FineTuningRecord
+} from '@/types/ml-types';
+import {
+  createClassifierHead,
+  createFeatureExtractor,
+  composeTransferModel,
+  cloneLayersModel,
+  preprocessTensor,
+  embedPixels,
+  embedAugmentedPixels,
+  trainModel,
+  trainWithForward,
+  unfreezeTopLayers,
+  warmStartHead,
+  disposeTransferModel,
+  TransferModel,
+  TrainingControl
+} from '@/lib/ml-utils';
+import { evaluateModel, summarizeFolds } from '@/lib/evaluation';
+import { computeOpenSetReference } from '@/lib/open-set';
+import { LabeledRow, stratifiedSplit, stratifiedKFold, resampleRows, computeClassWeights } from '@/lib/dataset';
+
+export interface EmbeddedRow extends LabeledRow {
+  embedding: number[];
+}
+
+export type EpochCallback = (entry: TrainingHistoryEntry, details: { bestEpoch?: number; samplesProcessed: number }) => void;
+
+export interface HeadTrainingCallbacks<T extends EmbeddedRow> {
+  // Embeddings of augmented copies of a training row
+  augment?: (row: T) => Promise<number[][]>;
+  onEpochEnd?: EpochCallback;
+}
+
+// A previously trained head to continue from; see warmStartHead
+export interface HeadWarmStart {
+  head: tf.LayersModel;
+  outputMap: Array<number | null>;
+}
+
+export interface HeadTrainingRun {
+  head: tf.LayersModel;
+  warmStarted: boolean;
+  history: TrainingHistoryEntry[];
+  bestEpoch?: number; // 1-based
+  stoppedAtEpoch: number;
+  stopReason: TrainingStopReason;
+  evaluation?: EvaluationReport; // On validationRows; absent when there are none
+}
+
+const toPercent = (value?: number) => value === undefined ? undefined : value * 100;
+
+function toTensors(embeddings: number[][], labels: number[], numClasses: number) {
+  return {
+    xs: tf.tensor2d(embeddings),
+    ys: tf.tidy(() => tf.oneHot(tf.tensor1d(labels, 'int32'), numClasses))
+  };
+}
+
+// Over- or undersamples training rows according to config.balancing
+export function balanceTrainingRows<T extends LabeledRow>(rows: T[], config: TrainingConfig): T[] {
+  return config.balancing === 'oversample' || config.balancing === 'undersample'
+    ? resampleRows(rows, config.balancing, config.seed)
+    : rows;
+}
+
+function classWeightsFor(labels: number[], numClasses: number, config: TrainingConfig) {
+  return config.balancing === 'classWeights' ? computeClassWeights(labels, numClasses) : undefined;
+}
+
+// Trains a classifier head on already-split embedding rows and scores it on the
+// validation rows. The head is built from the config; it starts from warmStart's
+// weights only when that head has the same hidden layers.
+export async function trainHead<T extends EmbeddedRow>(
+  trainRows: T[],
+  validationRows: T[],
+  classNames: string[],
+  config: TrainingConfig,
+  callbacks: HeadTrainingCallbacks<T> = {},
+  control?: TrainingControl,
+  warmStart?: HeadWarmStart
+): Promise<HeadTrainingRun> {
+  const balancedRows = balanceTrainingRows(trainRows, config);
+  const trainEmbeddings = balancedRows.map(row => row.embedding);
+  const trainLabels = balancedRows.map(row => row.label);
+
+  // Augment after splitting, so augmented copies never reach validation
+  if (callbacks.augment) {
+    for (const row of balancedRows) {
+      const augmented = await callbacks.augment(row);
+      trainEmbeddings.push(...augmented);
+      trainLabels.push(...augmented.map(() => row.label));
+    }
+  }
+
+  const { xs, ys } = toTensors(trainEmbeddings, trainLabels, classNames.length);
+  const validation = validationRows.length > 0
+    ? toTensors(validationRows.map(row => row.embedding), validationRows.map(row => row.label), classNames.length)
+    : undefined;
+
+  const head = createClassifierHead(trainEmbeddings[0].length, classNames.length, config);
+  const warmStarted = !!warmStart && warmStartHead(warmStart.head, head, warmStart.outputMap);
+  const history: TrainingHistoryEntry[] = [];
+
+  try {
+    const result = await trainModel(
+      head,
+      { xs, ys, validation, classWeight: classWeightsFor(trainLabels, classNames.length, config) },
+      // The split is already done per class; never fall back to Keras' tail split
+      validation ? config : { ...config, validationSplit: 0 },
+      (epoch, loss, accuracy, details) => {
+        const entry: TrainingHistoryEntry = {
+          epoch: epoch + 1,
+          loss,
+          accuracy: (accuracy || 0) * 100,
+          valLoss: details.valLoss,
+          valAccuracy: toPercent(details.valAccuracy),
+          phase: 'head'
+        };
+        history.push(entry);
+        callbacks.onEpochEnd?.(entry, {
+          bestEpoch: details.bestEpoch === undefined ? undefined : details.bestEpoch + 1,
+          samplesProcessed: trainEmbeddings.length
+        });
+      },
+      control
+    );
+
+    // Score the restored weights on the held-out rows. With early stopping
+    // these rows also chose the epoch, so this is a validation score, not a
+    // test score
+    const evaluation = validationRows.length > 0
+      ? await evaluateModel(
+          head,
+          validationRows.map(row => row.embedding),
+          validationRows.map(row => row.label),
+          validationRows.map(row => row.id),
+          classNames
+        )
+      : undefined;
+
+    return {
+      head,
+      warmStarted,
+      history,
+      bestEpoch: result.bestEpoch === undefined ? undefined : result.bestEpoch + 1,
+      stoppedAtEpoch: result.epochsRun,
+      stopReason: result.stopReason,
+      evaluation
+    };
+  } finally {
+    xs.dispose();
+    ys.dispose();
+    if (validation) {
+      validation.xs.dispose();
+      validation.ys.dispose();
+    }
+  }
+}
+
+export interface CrossValidationCallbacks<T extends EmbeddedRow> extends HeadTrainingCallbacks<T> {
+  onFoldStart?: (fold: number, totalFolds: number) => void; // fold is 1-based
+}
+
+// k-fold cross-validation: each fold trains a throwaway head on the other
+// k-1 folds and is scored on the held-out one. Early stopping picks its epoch
+// on a validation split of the training folds, so the held-out fold never
+// shapes the head it scores. Resolves to null when cancelled.
+export async function crossValidate<T extends EmbeddedRow>(
+  rows: T[],
+  classNames: string[],
+  config: TrainingConfig,
+  callbacks: CrossValidationCallbacks<T> = {},
+  control?: TrainingControl
+): Promise<CrossValidationReport | null> {
+  const k = config.crossValidation.folds;
+  if (k < 2 || rows.length < k) {
+    throw new Error(`Cross-validation needs at least ${Math.max(2, k)} samples and 2 folds`);
+  }
+
+  const folds = stratifiedKFold(rows, k, config.seed);
+  const evaluations: EvaluationReport[] = [];
+
+  for (let fold = 0; fold < k; fold++) {
+    callbacks.onFoldStart?.(fold + 1, k);
+    const trainRows = folds.filter((_, index) => index !== fold).flat();
+    // Without early stopping the held-out fold only adds validation curves
+    const { train, validation } = config.earlyStopping.enabled
+      ? stratifiedSplit(trainRows, config.validationSplit, config.seed + fold)
+      : { train: trainRows, validation: folds[fold] };
+    const run = await trainHead(train, validation, classNames, config, callbacks, control);
+    try {
+      // A partial set of folds would not be a fair estimate
+      if (run.stopReason === 'cancelled') return null;
+      evaluations.push(await evaluateModel(
+        run.head,
+        folds[fold].map(row => row.embedding),
+        folds[fold].map(row => row.label),
+        folds[fold].map(row => row.id),
+        classNames
+      ));
+    } finally {
+      run.head.optimizer?.dispose();
+      run.head.dispose();
+    }
+  }
+
+  return { ...summarizeFolds(evaluations), balancing: config.balancing };
+}
+
+export interface ImageBatch {
+  images: tf.Tensor4D; // Preprocessed for the base model, already balanced for training
+  labels: number[];
+  ids: string[];
+}
+
+export interface FineTuningRun extends FineTuningRecord {
+  history: TrainingHistoryEntry[];
+  evaluation?: EvaluationReport;
+}
+
+// Second phase: unfreezes the top base layers and continues training the
+// composed model end to end on images. The backbone runs in inference mode,
+// so batch normalization keeps the pretrained statistics it uses at
+// prediction time; the head keeps its dropout. Epochs are numbered after the
+// `epochOffset` epochs of the head phase so both phases share one history.
+export async function fineTune(
+  transferModel: TransferModel,
+  train: ImageBatch,
+  validation: ImageBatch | undefined,
+  classNames: string[],
+  config: TrainingConfig,
+  epochOffset: number,
+  onEpochEnd?: EpochCallback,
+  control?: TrainingControl
+): Promise<FineTuningRun> {
+  const { fineTuning } = config;
+  const { featureExtractor, head, model } = transferModel;
+  const unfrozenLayers = unfreezeTopLayers(featureExtractor, fineTuning.unfrozenLayers);
+  const oneHot = (labels: number[]) => tf.tidy(() => tf.oneHot(tf.tensor1d(labels, 'int32'), classNames.length));
+  const ys = oneHot(train.labels);
+  const validationYs = validation ? oneHot(validation.labels) : undefined;
+  const history: TrainingHistoryEntry[] = [];
+  const offset = (epoch?: number) => epoch === undefined ? undefined : epochOffset + epoch + 1;
+
+  try {
+    const result = await trainWithForward(
+      model,
+      xs => head.apply(featureExtractor.apply(xs, { training: false }), { training: true }) as tf.Tensor,
+      {
+        xs: train.images,
+        ys,
+        validation: validation && validationYs ? { xs: validation.images, ys: validationYs } : undefined,
+        classWeight: classWeightsFor(train.labels, classNames.length, config)
+      },
+      {
+        ...config,
+        epochs: fineTuning.epochs,
+        learningRate: fineTuning.learningRate,
+        validationSplit: 0
+      },
+      (epoch, loss, accuracy, details) => {
+        const entry: TrainingHistoryEntry = {
+          epoch: epochOffset + epoch + 1,
+          loss,
+          accuracy: (accuracy || 0) * 100,
+          valLoss: details.valLoss,
+          valAccuracy: toPercent(details.valAccuracy),
+          phase: 'fine_tune'
+        };
+        history.push(entry);
+        onEpochEnd?.(entry, { bestEpoch: offset(details.bestEpoch), samplesProcessed: train.labels.length });
+      },
+      control
+    );
+
+    // The tuned backbone produces new features, so score through it
+    let evaluation: EvaluationReport | undefined;
+    if (validation) {
+      const features = featureExtractor.predict(validation.images, { batchSize: config.batchSize }) as tf.Tensor2D;
+      const embeddings = await features.array();
+      features.dispose();
+      evaluation = await evaluateModel(head, embeddings, validation.labels, validation.ids, classNames);
+    }
+
+    return {
+      unfrozenLayers,
+      history,
+      bestEpoch: offset(result.bestEpoch),
+      stoppedAtEpoch: epochOffset + result.epochsRun,
+      stopReason: result.stopReason,
+      evaluation
+    };
+  } finally {
+    ys.dispose();
+    validationYs?.dispose();
+  }
+}
+
+export interface TrainingSource extends LabeledRow {
+  embedding?: number[]; // Cached embedding from the same base model, if any
+  // Decodes the sample to [height, width, 3] pixels in [0, 255]; the job disposes them
+  loadPixels: () => Promise<tf.Tensor3D>;
+}
+
+interface SourceRow extends EmbeddedRow {
+  loadPixels: () => Promise<tf.Tensor3D>;
+}
+
+export interface TrainingJobCallbacks {
+  onEpochEnd?: (progress: TrainingProgress, entry: TrainingHistoryEntry) => void;
+  onFoldStart?: (fold: number, totalFolds: number) => void;
+  // Cross-validation finished; the final model's history starts afresh
+  onCrossValidation?: (report: CrossValidationReport) => void;
+}
+
+export interface TrainingJobResult {
+  progress: TrainingProgress | null; // Last progress, completed with the stop reason
+  crossValidation?: CrossValidationReport;
+  cancelled?: boolean;
+  skippedSampleIds: string[]; // Samples left out because they could not be embedded
+  // Absent when cancelled without keeping weights, or when cross-validation
+  // ran without training a final model
+  trained?: {
+    transferModel: TransferModel;
+    tunedBaseModel?: tf.LayersModel; // Fine-tuned copy; baseModel itself is never modified
+    record: TrainingRecord;
+  };
+}
+
+export interface TrainingController extends TrainingControl {
+  pause: () => void;
+  resume: () => void;
+  // Stops after the current epoch; with keepBestWeights the partial model is kept
+  cancel: (keepBestWeights: boolean) => void;
+  keepsBestWeights: () => boolean;
+}
+
+export function createTrainingController(): TrainingController {
+  let paused = false;
+  let cancelled = false;
+  let keepBestWeights = false;
+  let resumers: Array<() => void> = [];
+
+  const release = () => {
+    resumers.forEach(resume => resume());
+    resumers = [];
+  };
+
+  return {
+    pause: () => {
+      paused = true;
+    },
+    resume: () => {
+      paused = false;
+      release();
+    },
+    cancel: (keep) => {
+      cancelled = true;
+      keepBestWeights = keep;
+      release();
+    },
+    isCancelled: () => cancelled,
+    keepsBestWeights: () => keepBestWeights,
+    waitWhilePaused: () => paused && !cancelled
+      ? new Promise<void>(resolve => resumers.push(resolve))
+      : Promise.resolve()
+  };
+}
+
+// A whole training run as configured: embedding, optional cross-validation,
+// head training, optional fine-tuning and evaluation. Free of DOM access so it
+// runs in the training worker as well as in Node.
+export async function runTrainingJob(
+  baseModel: tf.LayersModel,
+  featureExtractor: tf.LayersModel,
+  spec: BaseModelSpec,
+  sources: TrainingSource[],
+  classNames: string[],
+  config: TrainingConfig,
+  callbacks: TrainingJobCallbacks = {},
+  control?: TrainingController,
+  warmStart?: HeadWarmStart // Applies to the final head only; folds always start fresh
+): Promise<TrainingJobResult> {
+  const isCancelled = () => control?.isCancelled() ?? false;
+
+  const withPixels = async <R>(row: Pick<TrainingSource, 'loadPixels'>, use: (pixels: tf.Tensor3D) => R | Promise<R>): Promise<R> => {
+    const pixels = await row.loadPixels();
+    try {
+      return await use(pixels);
+    } finally {
+      pixels.dispose();
+    }
+  };
+
+  // Only samples without a cached embedding need a forward pass; samples
+  // that fail are left out and reported
+  const rows: SourceRow[] = [];
+  const skippedSampleIds: string[] = [];
+  for (const source of sources) {
+    if (isCancelled()) return { progress: null, cancelled: true, skippedSampleIds };
+    try {
+      const embedding = source.embedding ??
+        await withPixels(source, pixels => embedPixels(featureExtractor, pixels, spec));
+      rows.push({ ...source, embedding });
+    } catch (err) {
+      console.error(`Failed to embed sample ${source.id}:`, err);
+      skippedSampleIds.push(source.id);
+    }
+  }
+  const emptyClasses = classNames.filter((_, label) => !rows.some(row => row.label === label));
+  if (emptyClasses.length > 0) {
+    throw new Error(`No usable samples left in ${emptyClasses.map(name => `"${name}"`).join(', ')}`);
+  }
+
+  const startTime = Date.now();
+  let lastProgress: TrainingProgress | null = null;
+  let fold: Pick<TrainingProgress, 'fold' | 'totalFolds'> = {};
+  // Progress counts epochs within the running phase; history numbers them across phases
+  let phase = { phase: 'head' as TrainingPhase, epochOffset: 0, totalEpochs: config.epochs };
+
+  const onEpochEnd: EpochCallback = (entry, details) => {
+    lastProgress = {
+      epoch: entry.epoch - phase.epochOffset,
+      totalEpochs: phase.totalEpochs,
+      phase: phase.phase,
+      accuracy: entry.accuracy,
+      loss: entry.loss,
+      samplesProcessed: details.samplesProcessed,
+      timeElapsed: Math.floor((Date.now() - startTime) / 1000),
+      bestEpoch: details.bestEpoch,
+      ...fold
+    };
+    callbacks.onEpochEnd?.(lastProgress, entry);
+  };
+
+  const headCallbacks: CrossValidationCallbacks<SourceRow> = {
+    augment: config.augmentation.enabled && config.augmentation.copiesPerSample > 0
+      ? row => withPixels(row, pixels => embedAugmentedPixels(featureExtractor, pixels, spec, config.augmentation))
+      : undefined,
+    onFoldStart: (current, totalFolds) => {
+      fold = { fold: current, totalFolds };
+      callbacks.onFoldStart?.(current, totalFolds);
+    },
+    onEpochEnd
+  };
+
+  const cancelledProgress = (): TrainingProgress | null => lastProgress && {
+    ...(lastProgress as TrainingProgress),
+    bestEpoch: undefined, // Nothing from the run is kept
+    stoppedAtEpoch: (lastProgress as TrainingProgress).epoch,
+    stopReason: 'cancelled'
+  };
+
+  let crossValidation: CrossValidationReport | undefined;
+  if (config.crossValidation.enabled) {
+    const report = await crossValidate(rows, classNames, config, headCallbacks, control);
+    if (!report) return { progress: cancelledProgress(), cancelled: true, skippedSampleIds };
+    crossValidation = report;
+    fold = {};
+    callbacks.onCrossValidation?.(crossValidation);
+    if (!config.crossValidation.trainFinalModel) {
+      // Estimation only; the caller keeps its current model
+      return { progress: lastProgress, crossValidation, skippedSampleIds };
+    }
+  }
+
+  // After cross-validation the final model sees every sample
+  const { train: trainRows, validation: validationRows } = crossValidation
+    ? { train: rows, validation: [] }
+    : stratifiedSplit(rows, config.validationSplit, config.seed);
+
+  // Cancelling without keeping the best weights leaves the caller's model as it is
+  const discarded = (): TrainingJobResult => ({ progress: cancelledProgress(), crossValidation, cancelled: true, skippedSampleIds });
+
+  const run = await trainHead(trainRows, validationRows, classNames, config, headCallbacks, control, warmStart);
+  if (run.stopReason === 'cancelled' && !control?.keepsBestWeights()) {
+    run.head.optimizer?.dispose();
+    run.head.dispose();
+    return discarded();
+  }
+
+  let transferModel = composeTransferModel(featureExtractor, run.head);
+  let tunedBaseModel: tf.LayersModel | undefined;
+  let fineTuning: FineTuningRun | undefined;
+
+  if (config.fineTuning.enabled && config.fineTuning.epochs > 0 && !isCancelled()) {
+    // Tune a copy so the frozen backbone and the cached embeddings stay valid
+    tunedBaseModel = await cloneLayersModel(baseModel);
+    transferModel = composeTransferModel(createFeatureExtractor(tunedBaseModel, spec.featureLayer), run.head);
+
+    const toBatch = async (batchRows: SourceRow[]): Promise<ImageBatch> => {
+      const images: tf.Tensor[] = [];
+      try {
+        for (const row of batchRows) {
+          images.push(await withPixels(row, pixels => preprocessTensor(pixels, spec)));
+        }
+        return {
+          images: tf.concat(images) as tf.Tensor4D,
+          labels: batchRows.map(row => row.label),
+          ids: batchRows.map(row => row.id)
+        };
+      } finally {
+        images.forEach(image => image.dispose());
+      }
+    };
+    const train = await toBatch(balanceTrainingRows(trainRows, config));
+    const validation = validationRows.length > 0 ? await toBatch(validationRows) : undefined;
+
+    phase = { phase: 'fine_tune', epochOffset: run.stoppedAtEpoch, totalEpochs: config.fineTuning.epochs };
+    try {
+      fineTuning = await fineTune(
+        transferModel, train, validation, classNames, config, run.stoppedAtEpoch, onEpochEnd, control
+      );
+    } catch (err) {
+      tunedBaseModel.dispose();
+      throw err;
+    } finally {
+      train.images.dispose();
+      validation?.images.dispose();
+    }
+    if (fineTuning.stopReason === 'cancelled' && !control?.keepsBestWeights()) {
+      disposeTransferModel(transferModel, tunedBaseModel);
+      return discarded();
+    }
+  }
+
+  // Open-set reference in the final model's feature space; the cached
+  // embeddings no longer match once the backbone was fine-tuned
+  const finalEmbeddings: number[][] = [];
+  for (const row of rows) {
+    finalEmbeddings.push(tunedBaseModel
+      ? await withPixels(row, pixels => embedPixels(transferModel.featureExtractor, pixels, spec))
+      : row.embedding);
+  }
+  const openSet = computeOpenSetReference(finalEmbeddings, rows.map(row => row.label), classNames.length);
+
+  const finalRun = fineTuning ?? run;
+  const progress: TrainingProgress | null = lastProgress && {
+    ...(lastProgress as TrainingProgress),
+    bestEpoch: finalRun.bestEpoch,
+    stoppedAtEpoch: finalRun.stoppedAtEpoch,
+    stopReason: finalRun.stopReason
+  };
+
+  return {
+    progress,
+    crossValidation,
+    cancelled: isCancelled(),
+    skippedSampleIds,
+    trained: {
+      transferModel,
+      tunedBaseModel,
+      record: {
+        config,
+        history: [...run.history, ...(fineTuning?.history ?? [])],
+        bestEpoch: run.bestEpoch,
+        stopReason: run.stopReason,
+        evaluation: fineTuning?.evaluation ?? run.evaluation,
+        crossValidation,
+        fineTuning: fineTuning && {
+          unfrozenLayers: fineTuning.unfrozenLayers,
+          bestEpoch: fineTuning.bestEpoch,
+          stoppedAtEpoch: fineTuning.stoppedAtEpoch,
+          stopReason: fineTuning.stopReason
+        },
+        warmStarted: run.warmStarted,
+        openSet,
+        completedAt: new Date().toISOString()
+      }
+    }
+  };
+}
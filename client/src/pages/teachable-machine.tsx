@@ -1,16 +1,33 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
-import { Brain, Save, Download, HelpCircle } from 'lucide-react';
+import { Brain, Save, Download, Upload, Globe, HelpCircle, AlertTriangle, RefreshCw } from 'lucide-react';
 
-import { ClassManager } from '@/components/class-manager';
+import { ClassManager, SampleFocus } from '@/components/class-manager';
 import { TrainingControls } from '@/components/training-controls';
+import { TrainingRunControls } from '@/components/training-run-controls';
 import { PredictionDisplay } from '@/components/prediction-display';
+import { BatchPrediction } from '@/components/batch-prediction';
+import { RejectionConfigPanel } from '@/components/rejection-config-panel';
 import { ModelStats } from '@/components/model-stats';
 import { TutorialOverlay } from '@/components/tutorial-overlay';
+import { BaseModelSelector } from '@/components/base-model-selector';
+import { TrainingConfigPanel } from '@/components/training-config-panel';
+import { AugmentationConfigPanel } from '@/components/augmentation-config-panel';
+import { TrainingHistoryChart } from '@/components/training-history-chart';
+import { EvaluationReportView } from '@/components/evaluation-report';
+import { CrossValidationReportView } from '@/components/cross-validation-report';
+import { ModelImportDialog } from '@/components/model-import-dialog';
+import { TmProjectImport } from '@/components/tm-project-import';
 
 import { useTensorFlow } from '@/hooks/use-tensorflow';
-import { TrainingClass, Prediction, ModelStats as IModelStats } from '@/types/ml-types';
+import { TrainingClass, Prediction, ModelStats as IModelStats, BaseModelSpec, TrainingConfig } from '@/types/ml-types';
+import { DEFAULT_BASE_MODEL } from '@/lib/base-models';
+import { DEFAULT_TRAINING_CONFIG } from '@/lib/ml-utils';
+import { IMBALANCE_RATIO, imbalanceRatio } from '@/lib/dataset';
+import { describeModelChanges, hasModelChanges, outputClasses, snapshotClasses } from '@/lib/model-classes';
+import { createSampleIndex, NearestSample } from '@/lib/nearest-samples';
+import { PredictionFrame } from '@/hooks/use-prediction-loop';
 
 export default function TeachableMachine() {
   const { toast } = useToast();
@@ -20,12 +37,24 @@ export default function TeachableMachine() {
     trainingStatus,
     trainingProgress,
     trainingHistory,
+    crossValidationReport,
+    skippedSampleIds,
     error,
     loadBaseModel,
-    createModel,
+    loadCustomBaseModel,
+    importModel,
+    embedSamples,
     startTraining,
+    pauseTraining,
+    resumeTraining,
+    cancelTraining,
     makePrediction,
+    explainPrediction,
+    predictWithEmbedding,
+    rejectionConfig,
+    setRejectionConfig,
     exportModel,
+    exportStandaloneApp,
     clearError
   } = useTensorFlow();
 
@@ -45,6 +74,7 @@ export default function TeachableMachine() {
   ]);
 
   const [predictions, setPredictions] = useState<Prediction[]>([]);
+  const [nearestSamples, setNearestSamples] = useState<NearestSample[]>([]);
   const [modelStats, setModelStats] = useState<IModelStats>({
     totalClasses: 0,
     totalSamples: 0,
@@ -52,13 +82,21 @@ export default function TeachableMachine() {
     inferenceTime: 0
   });
   const [showTutorial, setShowTutorial] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  // The project's backbone; changing it discards the trained head and cached embeddings
+  const [baseModelSpec, setBaseModelSpec] = useState<BaseModelSpec>(DEFAULT_BASE_MODEL);
+  const [trainingConfig, setTrainingConfig] = useState<TrainingConfig>(DEFAULT_TRAINING_CONFIG);
+  const embeddingSampleIds = useRef(new Set<string>());
+  // Samples the current base model failed to embed; not retried until it changes
+  const failedEmbeddings = useRef({ baseModelId: '', sampleIds: new Set<string>() });
+  const [focusedSample, setFocusedSample] = useState<SampleFocus | null>(null);
 
-  // Initialize TensorFlow and load base model
+  // Initialize TensorFlow and load the selected base model
   useEffect(() => {
-    if (isInitialized && !model.baseModel) {
-      loadBaseModel();
+    if (isInitialized && !baseModelSpec.custom && model.baseModelSpec?.id !== baseModelSpec.id) {
+      loadBaseModel(baseModelSpec);
     }
-  }, [isInitialized, model.baseModel, loadBaseModel]);
+  }, [isInitialized, baseModelSpec, model.baseModelSpec, loadBaseModel]);
 
   // Show errors as toast notifications
   useEffect(() => {
@@ -72,12 +110,63 @@ export default function TeachableMachine() {
     }
   }, [error, toast, clearError]);
 
-  // Create model when classes change
+  // Compute each new sample's embedding once so training only runs the head
   useEffect(() => {
-    if (model.baseModel && classes.length >= 2) {
-      createModel(classes);
+    if (!model.featureExtractor || !model.baseModelSpec) return;
+
+    const baseModelId = model.baseModelSpec.id;
+    if (failedEmbeddings.current.baseModelId !== baseModelId) {
+      failedEmbeddings.current = { baseModelId, sampleIds: new Set() };
     }
-  }, [model.baseModel, classes, createModel]);
+    const failed = failedEmbeddings.current.sampleIds;
+    const pending = classes
+      .flatMap(cls => cls.samples)
+      .filter(sample =>
+        sample.embeddingBaseModel !== baseModelId &&
+        !embeddingSampleIds.current.has(sample.id) &&
+        !failed.has(sample.id)
+      );
+    if (pending.length === 0) return;
+
+    pending.forEach(sample => embeddingSampleIds.current.add(sample.id));
+    embedSamples(pending).then(embeddings => {
+      const missing = pending.filter(sample => !embeddings.has(sample.id));
+      missing.forEach(sample => failed.add(sample.id));
+      if (missing.length > 0) {
+        toast({
+          title: "Error",
+          description: `Could not embed ${missing.length} sample(s); training will try them again`,
+          variant: "destructive",
+        });
+      }
+      if (embeddings.size === 0) return;
+
+      setClasses(prev => prev.map(cls => ({
+        ...cls,
+        samples: cls.samples.map(sample => {
+          const embedding = embeddings.get(sample.id);
+          return embedding && sample.embeddingBaseModel !== baseModelId
+            ? { ...sample, embedding, embeddingBaseModel: baseModelId }
+            : sample;
+        })
+      })));
+    }, err => {
+      pending.forEach(sample => failed.add(sample.id));
+      toast({
+        title: "Error",
+        description: `Failed to embed samples. ${err instanceof Error ? err.message : ''}`.trim(),
+        variant: "destructive",
+      });
+    }).finally(() => {
+      pending.forEach(sample => embeddingSampleIds.current.delete(sample.id));
+    });
+  }, [model.featureExtractor, model.baseModelSpec, classes, embedSamples, toast]);
+
+  // Accuracy of the current model on its held-out split, or the cross-validated estimate
+  useEffect(() => {
+    const accuracy = model.training?.evaluation?.accuracy ?? model.training?.crossValidation?.accuracy.mean;
+    setModelStats(prev => ({ ...prev, accuracy: accuracy !== undefined ? accuracy * 100 : 0 }));
+  }, [model.training]);
 
   // Update model stats
   useEffect(() => {
@@ -111,8 +200,14 @@ export default function TeachableMachine() {
       return;
     }
 
-    startTraining(classes, epochs);
-  }, [classes, startTraining, toast]);
+    startTraining(classes, { ...trainingConfig, epochs });
+  }, [classes, trainingConfig, startTraining, toast]);
+
+  // Ranks training samples by how much their base model embedding looks like an image's
+  const sampleIndex = useMemo(
+    () => createSampleIndex(classes, model.baseModelSpec?.id ?? ''),
+    [classes, model.baseModelSpec]
+  );
 
   const handlePredict = useCallback(async (element: HTMLVideoElement | HTMLImageElement) => {
     if (!model.isReady) {
@@ -126,10 +221,11 @@ export default function TeachableMachine() {
 
     try {
       const startTime = Date.now();
-      const predictions = await makePrediction(element, classes);
+      const { predictions, embedding } = await predictWithEmbedding(element, classes);
       const inferenceTime = (Date.now() - startTime) / 1000;
       
       setPredictions(predictions);
+      setNearestSamples(sampleIndex.nearest(embedding));
       setModelStats(prev => ({ ...prev, inferenceTime }));
     } catch (err) {
       toast({
@@ -138,11 +234,33 @@ export default function TeachableMachine() {
         variant: "destructive",
       });
     }
-  }, [model.isReady, makePrediction, classes, toast]);
+  }, [model.isReady, predictWithEmbedding, sampleIndex, classes, toast]);
+
+  // For callers that show the predictions themselves: live video and batches
+  const predictElement = useCallback(
+    (element: HTMLImageElement | HTMLVideoElement) => makePrediction(element, classes),
+    [makePrediction, classes]
+  );
+
+  // Live frames bring the training samples nearest to the same frame
+  const predictFrame = useCallback(async (video: HTMLVideoElement): Promise<PredictionFrame> => {
+    const { predictions, embedding } = await predictWithEmbedding(video, classes);
+    return { predictions, nearest: sampleIndex.nearest(embedding) };
+  }, [predictWithEmbedding, sampleIndex, classes]);
+
+  // Classes a saliency map can be drawn for, in the head's output order
+  const explainOutputs = useMemo(() => model.isReady
+    ? outputClasses(model.trainedClasses ?? snapshotClasses(classes), classes).map(output => ({
+        id: output.id,
+        name: `${output.name}${output.removed ? '（削除済み）' : ''}`
+      }))
+    : [],
+    [model.isReady, model.trainedClasses, classes]
+  );
 
   const handleExportModel = useCallback(async () => {
     try {
-      await exportModel();
+      await exportModel(classes);
       toast({
         title: "Export Successful",
         description: "Model has been downloaded to your device",
@@ -154,7 +272,42 @@ export default function TeachableMachine() {
         variant: "destructive",
       });
     }
-  }, [exportModel, toast]);
+  }, [exportModel, classes, toast]);
+
+  const handleExportApp = useCallback(async () => {
+    try {
+      await exportStandaloneApp(classes);
+      toast({
+        title: "Export Successful",
+        description: "Unzip the app and open index.html, or host the folder on any static file server",
+      });
+    } catch (err) {
+      toast({
+        title: "Export Failed", 
+        description: "Failed to export the app. Please try again.",
+        variant: "destructive",
+      });
+    }
+  }, [exportStandaloneApp, classes, toast]);
+
+  const handleUploadBaseModel = useCallback(async (files: File[], spec: BaseModelSpec) => {
+    setBaseModelSpec(spec);
+    await loadCustomBaseModel(files, spec);
+  }, [loadCustomBaseModel]);
+
+  const handleImportModel = useCallback(async (files: File[]) => {
+    const imported = await importModel(files, classes);
+    if (!imported) return false;
+
+    setBaseModelSpec(imported.spec);
+    setClasses(imported.classes);
+    setPredictions([]);
+    toast({
+      title: "Import Successful",
+      description: `Restored ${imported.classes.length} classes; the model is ready for predictions`,
+    });
+    return true;
+  }, [importModel, classes, toast]);
 
   const handleSaveProject = useCallback(() => {
     // For now, just show a message
@@ -167,6 +320,17 @@ export default function TeachableMachine() {
   const canTrain = model.baseModel && classes.length >= 2 && 
     classes.some(cls => cls.samples.length > 0);
 
+  const isTraining = trainingStatus === 'training' || trainingStatus === 'paused';
+
+  // Class edits keep the trained model; it is only marked as out of date
+  const modelChanges = model.isReady && model.trainedClasses
+    ? describeModelChanges(model.trainedClasses, model.trainedSampleIds ?? [], classes)
+    : null;
+  const isModelOutOfDate = !!modelChanges && hasModelChanges(modelChanges);
+
+  const sampleCounts = classes.map(cls => cls.samples.length);
+  const isImbalanced = imbalanceRatio(sampleCounts) >= IMBALANCE_RATIO;
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -199,6 +363,15 @@ export default function TeachableMachine() {
                 <Save className="w-4 h-4 mr-2" />
                 Save Project
               </Button>
+              <Button 
+                variant="outline" 
+                onClick={() => setShowImport(true)}
+                disabled={!isInitialized || isTraining}
+                className="border-gray-300 text-gray-700 hover:bg-gray-50"
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Import Model
+              </Button>
               <Button 
                 onClick={handleExportModel}
                 disabled={!model.isReady}
@@ -207,12 +380,36 @@ export default function TeachableMachine() {
                 <Download className="w-4 h-4 mr-2" />
                 Export Model
               </Button>
+              <Button 
+                variant="outline" 
+                onClick={handleExportApp}
+                disabled={!model.isReady}
+                className="border-gray-300 text-gray-700 hover:bg-gray-50"
+              >
+                <Globe className="w-4 h-4 mr-2" />
+                Export App
+              </Button>
             </div>
           </div>
         </div>
       </header>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Fallback base model warning */}
+        {model.baseModelSource === 'fallback' && (
+          <div className="mb-8 bg-amber-50 border border-amber-300 rounded-lg p-4 flex items-start space-x-3">
+            <AlertTriangle className="w-5 h-5 text-amber-600 mt-0.5 flex-shrink-0" />
+            <div>
+              <h3 className="font-medium text-amber-900">{baseModelSpec.name} を読み込めませんでした</h3>
+              <p className="text-sm text-amber-800 mt-1">
+                サーバー（/api/base-models）とインターネットのどちらからもベースモデルを取得できなかったため、
+                学習済みでないランダムなモデルを使用しています。転移学習ではないので、精度は大きく低下します。
+                管理者は base-models フォルダにベースモデルの重みを配置してください。
+              </p>
+            </div>
+          </div>
+        )}
+
         {/* Progress Steps Guide */}
         <div className="mb-8 bg-white rounded-lg shadow-sm border border-gray-200 p-6">
           <h2 className="text-lg font-semibold text-gray-900 mb-4">機械学習モデル作成ガイド</h2>
@@ -287,10 +484,21 @@ export default function TeachableMachine() {
                   分類したいクラスを作成してください（例：猫、犬など）
                 </p>
               </div>
-              <div className="p-6">
+              <div className="p-6 space-y-4">
+                <TmProjectImport
+                  onImport={imported => {
+                    setClasses(imported);
+                    setPredictions([]);
+                  }}
+                  disabled={isTraining}
+                />
                 <ClassManager 
                   classes={classes}
                   onClassesChange={setClasses}
+                  augmentationConfig={trainingConfig.augmentation}
+                  onExplain={model.isReady ? explainPrediction : undefined}
+                  explainOutputs={explainOutputs}
+                  focusedSample={focusedSample}
                 />
               </div>
             </div>
@@ -352,7 +560,52 @@ export default function TeachableMachine() {
                   画像を追加したら、AIモデルをトレーニングしてください
                 </p>
               </div>
-              <div className="p-6">
+              <div className="p-6 space-y-6">
+                <BaseModelSelector
+                  selected={baseModelSpec}
+                  loaded={model.baseModelSpec}
+                  source={model.baseModelSource}
+                  onSelect={setBaseModelSpec}
+                  onUpload={handleUploadBaseModel}
+                  disabled={!isInitialized || isTraining}
+                />
+                {isModelOutOfDate && modelChanges && (
+                  <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 flex items-start space-x-3">
+                    <RefreshCw className="w-4 h-4 text-blue-600 mt-0.5 flex-shrink-0" />
+                    <p className="text-sm text-blue-800">
+                      モデルが最新ではありません（
+                      {[
+                        modelChanges.addedClasses > 0 && `クラス追加 ${modelChanges.addedClasses}`,
+                        modelChanges.removedClasses > 0 && `クラス削除 ${modelChanges.removedClasses}`,
+                        modelChanges.addedSamples > 0 && `画像追加 ${modelChanges.addedSamples}`,
+                        modelChanges.removedSamples > 0 && `画像削除 ${modelChanges.removedSamples}`
+                      ].filter(Boolean).join('、')}
+                      ）。予測には学習済みのモデルを使い続けます。もう一度学習すると変更が反映されます
+                      {trainingConfig.warmStart && '（現在の重みから続けて学習します）'}。
+                    </p>
+                  </div>
+                )}
+                {isImbalanced && (
+                  <div className="bg-amber-50 border border-amber-300 rounded-lg p-3 flex items-start space-x-3">
+                    <AlertTriangle className="w-4 h-4 text-amber-600 mt-0.5 flex-shrink-0" />
+                    <p className="text-sm text-amber-800">
+                      クラスごとの画像数に偏りがあります（最多 {Math.max(...sampleCounts)} 枚、最少 {Math.min(...sampleCounts.filter(count => count > 0))} 枚）。
+                      {trainingConfig.balancing === 'none'
+                        ? 'このままでは画像の多いクラスばかり予測されやすくなります。学習設定で不均衡対策を選ぶか、少ないクラスに画像を追加してください。'
+                        : '学習設定の不均衡対策で補正して学習します。'}
+                    </p>
+                  </div>
+                )}
+                <TrainingConfigPanel
+                  config={trainingConfig}
+                  onChange={setTrainingConfig}
+                  disabled={isTraining}
+                />
+                <AugmentationConfigPanel
+                  config={trainingConfig.augmentation}
+                  onChange={augmentation => setTrainingConfig(prev => ({ ...prev, augmentation }))}
+                  disabled={isTraining}
+                />
                 <TrainingControls
                   trainingStatus={trainingStatus}
                   trainingProgress={trainingProgress}
@@ -362,6 +615,34 @@ export default function TeachableMachine() {
                   classes={classes}
                   trainingHistory={trainingHistory}
                 />
+                <TrainingRunControls
+                  trainingStatus={trainingStatus}
+                  onPause={pauseTraining}
+                  onResume={resumeTraining}
+                  onCancel={cancelTraining}
+                />
+                {skippedSampleIds.length > 0 && (
+                  <div className="bg-amber-50 border border-amber-300 rounded-lg p-3 flex items-start space-x-3">
+                    <AlertTriangle className="w-4 h-4 text-amber-600 mt-0.5 flex-shrink-0" />
+                    <p className="text-sm text-amber-800">
+                      読み込めなかった画像 {skippedSampleIds.length} 枚を除いて学習しました。画像を確認して、必要なら撮り直してください。
+                    </p>
+                  </div>
+                )}
+                <TrainingHistoryChart
+                  history={trainingHistory}
+                  progress={trainingProgress}
+                  earlyStopping={model.training?.config.earlyStopping ?? trainingConfig.earlyStopping}
+                />
+                {crossValidationReport && (
+                  <CrossValidationReportView report={crossValidationReport} />
+                )}
+                {model.training && (
+                  <EvaluationReportView
+                    record={model.training}
+                    classes={classes}
+                  />
+                )}
               </div>
             </div>
           </div>
@@ -386,10 +667,29 @@ export default function TeachableMachine() {
               <div className="p-6">
                 <PredictionDisplay
                   predictions={predictions}
+                  nearestSamples={nearestSamples}
                   onPredict={handlePredict}
+                  onPredictFrame={predictFrame}
+                  onExplain={explainPrediction}
+                  explainOutputs={explainOutputs}
+                  onSelectSample={sampleId => setFocusedSample({ sampleId, requestedAt: Date.now() })}
                   isModelReady={model.isReady}
                   classes={classes}
                 />
+                <div className="mt-6">
+                  <RejectionConfigPanel
+                    config={rejectionConfig}
+                    onChange={setRejectionConfig}
+                    openSet={model.training?.openSet}
+                  />
+                </div>
+                <div className="mt-6">
+                  <BatchPrediction
+                    onPredict={predictElement}
+                    isModelReady={model.isReady}
+                    classes={classes}
+                  />
+                </div>
               </div>
             </div>
 
@@ -421,6 +721,13 @@ export default function TeachableMachine() {
         isOpen={showTutorial}
         onClose={() => setShowTutorial(false)}
       />
+
+      {showImport && (
+        <ModelImportDialog
+          onImport={handleImportModel}
+          onClose={() => setShowImport(false)}
+        />
+      )}
     </div>
   );
 }
@@ -10,8 +10,16 @@ export interface ImageSample {
   imageData: ImageData;
   blob: Blob;
   url: string;
+  embedding?: number[]; // Base model feature vector, computed once per sample
+  embeddingBaseModel?: string; // Id of the base model that produced the embedding
+  pinnedToValidation?: boolean; // Always held out for validation
 }
 
+export type TrainingStopReason = 'completed' | 'early_stopping' | 'cancelled';
+
+// 'head' trains on cached embeddings; 'fine_tune' continues end to end on images
+export type TrainingPhase = 'head' | 'fine_tune';
+
 export interface TrainingProgress {
   epoch: number;
   totalEpochs: number;
@@ -19,12 +27,160 @@ export interface TrainingProgress {
   loss: number;
   samplesProcessed: number;
   timeElapsed: number;
+  bestEpoch?: number; // 1-based epoch whose weights are kept when early stopping is on
+  stoppedAtEpoch?: number;
+  stopReason?: TrainingStopReason;
+  fold?: number; // 1-based, set while cross-validating
+  totalFolds?: number;
+  phase?: TrainingPhase; // epoch and totalEpochs count within this phase
+}
+
+export type OptimizerType = 'adam' | 'sgd' | 'rmsprop' | 'adagrad';
+
+// Each transform is applied to a training copy with its own probability (0 disables it)
+export interface AugmentationConfig {
+  enabled: boolean;
+  copiesPerSample: number; // Augmented variants generated per training sample on every run
+  flip: { probability: number };
+  crop: { probability: number; minScale: number }; // Zoom into a random crop of at least minScale
+  rotation: { probability: number; maxDegrees: number };
+  brightness: { probability: number; maxDelta: number }; // Fraction of the full pixel range
+  contrast: { probability: number; maxDelta: number };
+  noise: { probability: number; stddev: number }; // Fraction of the full pixel range
+}
+
+export type EarlyStoppingMetric = 'val_loss' | 'val_acc';
+
+export interface EarlyStoppingConfig {
+  enabled: boolean;
+  monitor: EarlyStoppingMetric;
+  patience: number; // Epochs without improvement before stopping
+  minDelta: number; // Smallest change that counts as an improvement
+}
+
+// How training compensates for classes with very different sample counts
+export type BalancingStrategy = 'none' | 'classWeights' | 'oversample' | 'undersample';
+
+export interface CrossValidationConfig {
+  enabled: boolean;
+  folds: number;
+  trainFinalModel: boolean; // Afterwards train the usable model on all samples
+}
+
+export interface FineTuningConfig {
+  enabled: boolean;
+  unfrozenLayers: number; // Counted from the top, among layers with weights
+  epochs: number;
+  learningRate: number; // Should be well below the head's learning rate
 }
 
+export interface TrainingConfig {
+  epochs: number;
+  optimizer: OptimizerType;
+  learningRate: number;
+  batchSize: number;
+  validationSplit: number; // Fraction of each class held out, 0 disables validation
+  seed: number; // Makes the stratified split reproducible
+  dropout: number;
+  hiddenLayers: number[]; // Units of optional dense layers between features and output
+  labelSmoothing: number; // 0 disables smoothing
+  balancing: BalancingStrategy; // Applied to the training rows only, never to validation
+  warmStart: boolean; // Continue from the current head's weights when its layers still fit
+  augmentation: AugmentationConfig; // Training only, never applied at prediction time
+  earlyStopping: EarlyStoppingConfig; // Also restores the best epoch's weights
+  crossValidation: CrossValidationConfig;
+  fineTuning: FineTuningConfig; // Runs after head training on the final model only
+}
+
+export interface TrainingHistoryEntry {
+  epoch: number;
+  loss: number;
+  accuracy: number;
+  valLoss?: number;
+  valAccuracy?: number;
+  phase?: TrainingPhase;
+}
+
+export interface ClassMetrics {
+  className: string;
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number; // Held-out samples of this class
+}
+
+export interface EvaluationReport {
+  classNames: string[];
+  accuracy: number;
+  loss?: number; // Mean categorical cross-entropy
+  macroF1: number;
+  perClass: ClassMetrics[];
+  confusionMatrix: number[][]; // [actual][predicted] counts
+  cellSampleIds: string[][][]; // [actual][predicted] ids of the samples behind each count
+  sampleCount: number;
+}
+
+export interface MetricSummary {
+  mean: number;
+  std: number; // Sample standard deviation across folds
+}
+
+export interface CrossValidationReport {
+  folds: EvaluationReport[];
+  balancing?: BalancingStrategy;
+  accuracy: MetricSummary;
+  loss: MetricSummary;
+  perClass: Array<{
+    className: string;
+    precision: MetricSummary;
+    recall: MetricSummary;
+    f1: MetricSummary;
+  }>;
+}
+
+export interface FineTuningRecord {
+  unfrozenLayers: string[];
+  bestEpoch?: number; // 1-based, counted in the combined history
+  stoppedAtEpoch: number;
+  stopReason: TrainingStopReason;
+}
+
+// The config a trained model was produced with, kept next to its history
+export interface TrainingRecord {
+  config: TrainingConfig;
+  history: TrainingHistoryEntry[];
+  bestEpoch?: number;
+  stopReason: TrainingStopReason;
+  evaluation?: EvaluationReport; // On the held-out split, a validation score when early stopping chose the epoch on it; absent without validation data
+  crossValidation?: CrossValidationReport; // When the model was trained after k-fold cross-validation
+  fineTuning?: FineTuningRecord;
+  warmStarted?: boolean; // The head started from the previous model's weights
+  openSet?: OpenSetReference; // For rejecting inputs unlike any training sample
+  completedAt: string;
+}
+
+// Training embeddings summarized per output, to measure how far an input is from what the model knows
+export interface OpenSetReference {
+  centroids: number[][]; // Per output, mean of the L2-normalized training embeddings
+  calibratedDistance: number; // 95th percentile of training samples' cosine distance to their own centroid
+}
+
+// Rules that turn a prediction into "unknown" instead of the top class
+export interface RejectionConfig {
+  enabled: boolean;
+  minConfidence: number; // Percent; a lower top confidence is rejected
+  minMargin: number; // Percentage points the top class must lead the runner-up by
+  distanceCheck: boolean; // Also reject inputs far from every class's training samples
+  maxDistance?: number; // Cosine distance to the nearest centroid; the calibrated distance when unset
+}
+
+export type RejectionReason = 'low_confidence' | 'small_margin' | 'far_from_training';
+
 export interface Prediction {
   className: string;
   confidence: number;
   classIndex: number;
+  rejected?: RejectionReason; // Set on the top prediction when the input was judged unknown
 }
 
 export interface ModelStats {
@@ -34,11 +190,53 @@ export interface ModelStats {
   inferenceTime: number;
 }
 
-export type TrainingStatus = 'idle' | 'training' | 'completed' | 'error';
+export interface BaseModelSpec {
+  id: string;
+  name: string;
+  inputSize: number; // Square input resolution in pixels
+  normalization: [number, number]; // Range pixel values are scaled to, e.g. [-1, 1]
+  featureLayer?: string; // Layer whose output is used as the embedding
+  remoteUrl?: string; // CDN copy, tried after /api/base-models/<id>/model.json
+  custom?: boolean; // Uploaded by the user; weights only exist in this session
+}
+
+export interface ModelMetadata {
+  labels: string[];
+  colors: string[];
+  baseModel: BaseModelSpec;
+  training?: TrainingRecord;
+  rejection?: RejectionConfig;
+  createdAt: string;
+}
+
+// Where the base model weights came from; 'fallback' is an untrained random CNN
+export type BaseModelSource = 'local' | 'remote' | 'upload' | 'fallback';
+
+// A class as the model was trained on it, in the order of the head's outputs
+export type TrainedClass = Pick<TrainingClass, 'id' | 'name' | 'color'>;
+
+// Edits made to the classes since the current model was trained
+export interface ModelChanges {
+  addedClasses: number;
+  removedClasses: number;
+  addedSamples: number;
+  removedSamples: number;
+}
+
+export type TrainingStatus = 'idle' | 'training' | 'paused' | 'completed' | 'cancelled' | 'error';
 
 export interface MLModel {
-  model: any; // TensorFlow.js model
+  model: any; // TensorFlow.js model (image -> class probabilities)
   modelUrl?: string;
   isReady: boolean;
   baseModel?: any;
+  baseModelSpec?: BaseModelSpec;
+  baseModelSource?: BaseModelSource;
+  featureExtractor?: any; // Frozen base model truncated at the feature layer
+  head?: any; // Classification head trained on cached embeddings
+  tunedBaseModel?: any; // Fine-tuned copy of baseModel; the original stays frozen for embeddings
+  tunedFeatureExtractor?: any; // Used with the head instead of featureExtractor when present
+  trainedClasses?: TrainedClass[];
+  trainedSampleIds?: string[];
+  training?: TrainingRecord;
 }
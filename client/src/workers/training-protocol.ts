@@ -0,0 +1,67 @@
+import type * as tf from '@tensorflow/tfjs';
+import {
+  BaseModelSpec,
+  TrainingConfig,
+  TrainingProgress,
+  TrainingHistoryEntry,
+  TrainingRecord,
+  CrossValidationReport
+} from '@/types/ml-types';
+
+// Messages between the page and the training worker. Every request carries an
+// id that is echoed by all of its responses.
+
+export interface WorkerSample {
+  id: string;
+  label: number;
+  pinnedToValidation?: boolean;
+  embedding?: number[]; // Cached embedding from the loaded base model
+  blob?: Blob; // Needed without an embedding, and for augmentation or fine-tuning
+}
+
+// The current head and, per new output, the head output it continues from
+export interface SerializedWarmStart {
+  head: tf.io.ModelArtifacts;
+  outputMap: Array<number | null>;
+}
+
+export type TrainingWorkerRequest =
+  | { type: 'load_base_model'; requestId: number; artifacts: tf.io.ModelArtifacts; spec: BaseModelSpec }
+  | { type: 'embed'; requestId: number; samples: Array<{ id: string; blob: Blob }> }
+  | {
+      type: 'train';
+      requestId: number;
+      samples: WorkerSample[];
+      classNames: string[];
+      config: TrainingConfig;
+      warmStart?: SerializedWarmStart;
+    }
+  // Steers a running train request; handled immediately and never answered
+  | { type: 'control'; requestId: number; action: 'pause' | 'resume' | 'cancel'; keepBestWeights?: boolean };
+
+export interface SerializedTrainingResult {
+  progress: TrainingProgress | null;
+  crossValidation?: CrossValidationReport;
+  cancelled?: boolean;
+  skippedSampleIds: string[];
+  trained?: {
+    head: tf.io.ModelArtifacts;
+    tunedBaseModel?: tf.io.ModelArtifacts;
+    record: TrainingRecord;
+  };
+}
+
+export type TrainingWorkerResponse =
+  | { type: 'base_model_loaded'; requestId: number }
+  | { type: 'embeddings'; requestId: number; embeddings: Array<[string, number[]]> }
+  | { type: 'epoch'; requestId: number; progress: TrainingProgress; entry: TrainingHistoryEntry }
+  | { type: 'fold_start'; requestId: number; fold: number; totalFolds: number }
+  | { type: 'cross_validation'; requestId: number; report: CrossValidationReport }
+  | { type: 'trained'; requestId: number; result: SerializedTrainingResult }
+  | { type: 'error'; requestId: number; message: string };
+
+// Weight buffers to transfer instead of copying
+export function artifactBuffers(artifacts?: tf.io.ModelArtifacts): ArrayBuffer[] {
+  if (!artifacts?.weightData) return [];
+  return Array.isArray(artifacts.weightData) ? artifacts.weightData : [artifacts.weightData];
+}
@@ -0,0 +1,166 @@
+import * as tf from '@tensorflow/tfjs';
+import { BaseModelSpec } from '@/types/ml-types';
+import {
+  createFeatureExtractor,
+  serializeModel,
+  deserializeModel,
+  decodeImageBlob,
+  embedPixels,
+  disposeTransferModel
+} from '@/lib/ml-utils';
+import { runTrainingJob, createTrainingController, TrainingController } from '@/lib/training-pipeline';
+import { TrainingWorkerRequest, TrainingWorkerResponse, artifactBuffers } from '@/workers/training-protocol';
+
+// Embeds samples and trains off the main thread, so the page and the webcam
+// preview stay responsive. Keeps its own copy of the base model; requests are
+// handled one at a time in arrival order, control messages right away.
+
+let baseModel: tf.LayersModel | null = null;
+let featureExtractor: tf.LayersModel | null = null;
+let spec: BaseModelSpec | null = null;
+// Keyed by the id of the train request they steer
+const controllers = new Map<number, TrainingController>();
+
+const backendReady = (async () => {
+  try {
+    await tf.setBackend('webgl');
+    await tf.ready();
+  } catch (webglError) {
+    console.warn('WebGL not available in training worker, falling back to CPU:', webglError);
+    await tf.setBackend('cpu');
+    await tf.ready();
+  }
+})();
+
+function respond(message: TrainingWorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer });
+}
+
+function requireBaseModel() {
+  if (!baseModel || !featureExtractor || !spec) {
+    throw new Error('No base model loaded in the training worker');
+  }
+  return { baseModel, featureExtractor, spec };
+}
+
+async function handle(request: TrainingWorkerRequest) {
+  await backendReady;
+
+  switch (request.type) {
+    case 'load_base_model': {
+      baseModel?.dispose();
+      baseModel = await deserializeModel(request.artifacts);
+      featureExtractor = createFeatureExtractor(baseModel, request.spec.featureLayer);
+      spec = request.spec;
+      respond({ type: 'base_model_loaded', requestId: request.requestId });
+      break;
+    }
+
+    case 'embed': {
+      const loaded = requireBaseModel();
+      const embeddings: Array<[string, number[]]> = [];
+      for (const sample of request.samples) {
+        try {
+          const pixels = await decodeImageBlob(sample.blob);
+          embeddings.push([sample.id, await embedPixels(loaded.featureExtractor, pixels, loaded.spec)]);
+          pixels.dispose();
+        } catch (err) {
+          console.error(`Failed to embed sample ${sample.id}:`, err);
+        }
+      }
+      respond({ type: 'embeddings', requestId: request.requestId, embeddings });
+      break;
+    }
+
+    case 'train': {
+      const loaded = requireBaseModel();
+      const { requestId } = request;
+      const sources = request.samples.map(sample => ({
+        id: sample.id,
+        label: sample.label,
+        pinnedToValidation: sample.pinnedToValidation,
+        embedding: sample.embedding,
+        loadPixels: () => sample.blob
+          ? decodeImageBlob(sample.blob)
+          : Promise.reject(new Error(`No image data for sample ${sample.id}`))
+      }));
+
+      const warmStart = request.warmStart && {
+        head: await deserializeModel(request.warmStart.head),
+        outputMap: request.warmStart.outputMap
+      };
+
+      const result = await runTrainingJob(
+        loaded.baseModel,
+        loaded.featureExtractor,
+        loaded.spec,
+        sources,
+        request.classNames,
+        request.config,
+        {
+          onEpochEnd: (progress, entry) => respond({ type: 'epoch', requestId, progress, entry }),
+          onFoldStart: (fold, totalFolds) => respond({ type: 'fold_start', requestId, fold, totalFolds }),
+          onCrossValidation: report => respond({ type: 'cross_validation', requestId, report })
+        },
+        controllers.get(requestId),
+        warmStart
+      ).finally(() => warmStart?.head.dispose());
+
+      // Only the weights cross back; the page composes its own prediction model
+      const trained = result.trained && {
+        head: await serializeModel(result.trained.transferModel.head),
+        tunedBaseModel: result.trained.tunedBaseModel && await serializeModel(result.trained.tunedBaseModel),
+        record: result.trained.record
+      };
+      if (result.trained) {
+        disposeTransferModel(result.trained.transferModel, result.trained.tunedBaseModel);
+      }
+
+      respond(
+        { type: 'trained', requestId, result: {
+          progress: result.progress,
+          crossValidation: result.crossValidation,
+          cancelled: result.cancelled,
+          skippedSampleIds: result.skippedSampleIds,
+          trained
+        } },
+        [...artifactBuffers(trained?.head), ...artifactBuffers(trained?.tunedBaseModel)]
+      );
+      break;
+    }
+  }
+}
+
+let queue = Promise.resolve();
+
+function steer(request: Extract<TrainingWorkerRequest, { type: 'control' }>) {
+  const controller = controllers.get(request.requestId);
+  if (!controller) return;
+  if (request.action === 'pause') controller.pause();
+  if (request.action === 'resume') controller.resume();
+  if (request.action === 'cancel') controller.cancel(request.keepBestWeights ?? false);
+}
+
+self.onmessage = (event: MessageEvent<TrainingWorkerRequest>) => {
+  const request = event.data;
+  // Control messages must not wait behind the run they steer
+  if (request.type === 'control') {
+    steer(request);
+    return;
+  }
+  if (request.type === 'train') {
+    controllers.set(request.requestId, createTrainingController());
+  }
+
+  queue = queue
+    .then(() => handle(request))
+    .catch(err => {
+      console.error('Training worker error:', err);
+      respond({
+        type: 'error',
+        requestId: request.requestId,
+        message: err instanceof Error ? err.message : String(err)
+      });
+    })
+    .finally(() => controllers.delete(request.requestId));
+};
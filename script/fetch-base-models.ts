@@ -0,0 +1,54 @@
+import fs from "fs";
+import path from "path";
+
+// Downloads base model weights once so the server can host them under
+// /api/base-models for offline classrooms.
+//   npm run fetch:base-models [model-name ...]
+
+const REMOTE_ROOT = "https://storage.googleapis.com/tfjs-models/tfjs";
+const DEFAULT_MODELS = ["mobilenet_v1_1.0_224"];
+
+const baseModelsDir =
+  process.env.BASE_MODELS_DIR ??
+  path.resolve(import.meta.dirname, "..", "base-models");
+
+async function download(url: string): Promise<Buffer> {
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new Error(`${res.status} ${res.statusText}: ${url}`);
+  }
+  return Buffer.from(await res.arrayBuffer());
+}
+
+async function fetchModel(name: string) {
+  const remoteDir = `${REMOTE_ROOT}/${name}`;
+  const localDir = path.join(baseModelsDir, name);
+  await fs.promises.mkdir(localDir, { recursive: true });
+
+  const modelJson = await download(`${remoteDir}/model.json`);
+  await fs.promises.writeFile(path.join(localDir, "model.json"), modelJson);
+
+  const manifest = JSON.parse(modelJson.toString("utf-8"));
+  const weightPaths: string[] = manifest.weightsManifest.flatMap(
+    (group: { paths: string[] }) => group.paths,
+  );
+
+  for (const weightPath of weightPaths) {
+    const weights = await download(`${remoteDir}/${weightPath}`);
+    await fs.promises.writeFile(path.join(localDir, weightPath), weights);
+  }
+
+  console.log(`${name}: model.json + ${weightPaths.length} weight files -> ${localDir}`);
+}
+
+(async () => {
+  const models = process.argv.slice(2);
+  for (const name of models.length > 0 ? models : DEFAULT_MODELS) {
+    try {
+      await fetchModel(name);
+    } catch (error) {
+      console.error(`Failed to fetch ${name}:`, error);
+      process.exitCode = 1;
+    }
+  }
+})();
@@ -0,0 +1,69 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { DEFAULT_TRAINING_CONFIG } from "@/lib/ml-utils";
+import { UsageError, mergeConfig, readConfig } from "./train-config";
+
+describe("mergeConfig", () => {
+  const defaults = { epochs: 20, hiddenLayers: [128], earlyStopping: { enabled: false, patience: 5 } };
+
+  it("overrides only the keys it is given, nested objects included", () => {
+    expect(mergeConfig(defaults, { epochs: 5, earlyStopping: { enabled: true } })).toEqual({
+      epochs: 5,
+      hiddenLayers: [128],
+      earlyStopping: { enabled: true, patience: 5 },
+    });
+  });
+
+  it("replaces arrays instead of merging them", () => {
+    expect(mergeConfig(defaults, { hiddenLayers: [64, 32] }).hiddenLayers).toEqual([64, 32]);
+  });
+
+  it("leaves the defaults untouched", () => {
+    mergeConfig(defaults, { epochs: 1, earlyStopping: { patience: 1 } });
+
+    expect(defaults).toEqual({ epochs: 20, hiddenLayers: [128], earlyStopping: { enabled: false, patience: 5 } });
+  });
+
+  it("rejects unknown options with their full path", () => {
+    expect(() => mergeConfig(defaults, { epoch: 5 })).toThrow(new UsageError("Unknown config option epoch"));
+    expect(() => mergeConfig(defaults, { earlyStopping: { patients: 3 } })).toThrow("Unknown config option earlyStopping.patients");
+  });
+});
+
+describe("readConfig", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "train-config-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeConfig(content: string): string {
+    const configPath = path.join(dir, "config.json");
+    fs.writeFileSync(configPath, content);
+    return configPath;
+  }
+
+  it("uses the app's defaults without a config", async () => {
+    expect(await readConfig()).toBe(DEFAULT_TRAINING_CONFIG);
+  });
+
+  it("applies the config over the defaults", async () => {
+    const config = await readConfig(writeConfig(JSON.stringify({ epochs: 3, earlyStopping: { enabled: true } })));
+
+    expect(config.epochs).toBe(3);
+    expect(config.earlyStopping).toEqual({ ...DEFAULT_TRAINING_CONFIG.earlyStopping, enabled: true });
+    expect(config.learningRate).toBe(DEFAULT_TRAINING_CONFIG.learningRate);
+  });
+
+  it("reports a missing file, invalid JSON or a non-object as usage errors", async () => {
+    await expect(readConfig(path.join(dir, "missing.json"))).rejects.toThrow(UsageError);
+    await expect(readConfig(writeConfig("{ epochs: 3"))).rejects.toThrow(/^Cannot read config/);
+    await expect(readConfig(writeConfig("[1, 2]"))).rejects.toThrow("The config must be a JSON object");
+  });
+});
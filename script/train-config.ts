@@ -0,0 +1,41 @@
+import fs from "fs";
+import type { TrainingConfig } from "@/types/ml-types";
+import { DEFAULT_TRAINING_CONFIG } from "@/lib/ml-utils";
+
+// The trainer's --config file: a JSON object listing only the TrainingConfig
+// options that differ from the app's defaults.
+
+// Bad arguments, config or dataset; the trainer exits with its usage code
+export class UsageError extends Error {}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Overrides the defaults key by key, so a config only lists what it changes
+export function mergeConfig(defaults: Record<string, unknown>, overrides: Record<string, unknown>, prefix = ""): Record<string, unknown> {
+  const merged = { ...defaults };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (!(key in defaults)) {
+      throw new UsageError(`Unknown config option ${prefix}${key}`);
+    }
+    merged[key] = isPlainObject(defaults[key]) && isPlainObject(value)
+      ? mergeConfig(defaults[key] as Record<string, unknown>, value, `${prefix}${key}.`)
+      : value;
+  }
+  return merged;
+}
+
+export async function readConfig(configPath?: string): Promise<TrainingConfig> {
+  if (!configPath) return DEFAULT_TRAINING_CONFIG;
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(await fs.promises.readFile(configPath, "utf-8"));
+  } catch (error) {
+    throw new UsageError(`Cannot read config ${configPath}: ${(error as Error).message}`);
+  }
+  if (!isPlainObject(overrides)) {
+    throw new UsageError("The config must be a JSON object of TrainingConfig options");
+  }
+  return mergeConfig(DEFAULT_TRAINING_CONFIG as unknown as Record<string, unknown>, overrides) as unknown as TrainingConfig;
+}
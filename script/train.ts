@@ -0,0 +1,226 @@
+import fs from "fs";
+import path from "path";
+import * as tf from "@tensorflow/tfjs";
+import type { BaseModelSpec } from "@/types/ml-types";
+import { DEFAULT_BASE_MODEL, getBaseModelSpec } from "@/lib/base-models";
+import { createFeatureExtractor, createModelMetadata } from "@/lib/ml-utils";
+import { createTeachableMachineFiles } from "@/lib/model-export";
+import { CLASS_COLORS } from "@/lib/model-classes";
+import { createTrainingController, runTrainingJob, type TrainingSource } from "@/lib/training-pipeline";
+import { decodeImage, readModelArtifacts } from "../server/inference";
+import { UsageError, readConfig } from "./train-config";
+
+// Trains a model from a folder of images without the browser, with the same
+// pipeline as the app, and writes it in the app's export format.
+//   npm run train -- <dataset-dir> [--config config.json] [--base-model id] [--out dir]
+// The dataset has one subfolder per class. Progress goes to stderr and a JSON
+// summary to stdout; see EXIT_CODES for the exit status.
+
+const EXIT_CODES = {
+  success: 0,
+  failed: 1, // Training or writing the model failed
+  usage: 2, // Bad arguments, config or dataset
+  cancelled: 130, // Interrupted with Ctrl+C
+};
+
+const IMAGE_EXTENSION = /\.(png|jpe?g)$/i;
+
+const baseModelsDir =
+  process.env.BASE_MODELS_DIR ??
+  path.resolve(import.meta.dirname, "..", "base-models");
+
+interface Options {
+  datasetDir: string;
+  configPath?: string;
+  baseModelId: string;
+  outDir: string;
+}
+
+function parseArgs(args: string[]): Options {
+  let datasetDir: string | undefined;
+  let configPath: string | undefined;
+  let baseModelId = DEFAULT_BASE_MODEL.id;
+  let outDir: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = () => {
+      const next = args[++i];
+      if (next === undefined) throw new UsageError(`${arg} needs a value`);
+      return next;
+    };
+    if (arg === "--config") configPath = value();
+    else if (arg === "--base-model") baseModelId = value();
+    else if (arg === "--out") outDir = value();
+    else if (arg.startsWith("--")) throw new UsageError(`Unknown option ${arg}`);
+    else if (datasetDir === undefined) datasetDir = arg;
+    else throw new UsageError(`Unexpected argument ${arg}`);
+  }
+  if (!datasetDir) {
+    throw new UsageError("Usage: train <dataset-dir> [--config config.json] [--base-model id] [--out dir]");
+  }
+  return {
+    datasetDir: path.resolve(datasetDir),
+    configPath,
+    baseModelId,
+    outDir: path.resolve(outDir ?? `${path.basename(path.resolve(datasetDir))}-model`),
+  };
+}
+
+// One class per subfolder, in name order; sample ids are paths relative to the dataset
+async function readDataset(datasetDir: string) {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(datasetDir, { withFileTypes: true });
+  } catch (error) {
+    throw new UsageError(`Cannot read dataset ${datasetDir}: ${(error as Error).message}`);
+  }
+  const classNames = entries
+    .filter(entry => entry.isDirectory() && !entry.name.startsWith("."))
+    .map(entry => entry.name)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+  const sources: TrainingSource[] = [];
+  const sampleCounts: Record<string, number> = {};
+  for (let label = 0; label < classNames.length; label++) {
+    const className = classNames[label];
+    const files = (await fs.promises.readdir(path.join(datasetDir, className)))
+      .filter(file => IMAGE_EXTENSION.test(file))
+      .sort();
+    sampleCounts[className] = files.length;
+    for (const file of files) {
+      const filePath = path.join(datasetDir, className, file);
+      sources.push({
+        id: path.join(className, file),
+        label,
+        loadPixels: async () => decodeImage(await fs.promises.readFile(filePath)),
+      });
+    }
+  }
+
+  const emptyClasses = classNames.filter(className => sampleCounts[className] === 0);
+  if (classNames.length < 2) {
+    throw new UsageError(`The dataset needs at least 2 class folders, found ${classNames.length}`);
+  }
+  if (emptyClasses.length > 0) {
+    throw new UsageError(`No JPEG or PNG images in: ${emptyClasses.join(", ")}`);
+  }
+  return { classNames, sources, sampleCounts };
+}
+
+// Weights fetched with npm run fetch:base-models first, then the public CDN
+async function loadBaseModel(spec: BaseModelSpec): Promise<tf.LayersModel> {
+  const localDir = path.join(baseModelsDir, spec.id);
+  const localJson = path.join(localDir, "model.json");
+  if (fs.existsSync(localJson)) {
+    const modelJson: tf.io.ModelJSON = JSON.parse(await fs.promises.readFile(localJson, "utf-8"));
+    const files = await Promise.all(
+      modelJson.weightsManifest.flatMap(group => group.paths).map(async name => ({
+        name,
+        buffer: await fs.promises.readFile(path.join(localDir, name)),
+      })),
+    );
+    return tf.loadLayersModel(tf.io.fromMemory(readModelArtifacts(modelJson, files)));
+  }
+  if (!spec.remoteUrl) {
+    throw new UsageError(`${spec.id} is not in ${baseModelsDir}; run npm run fetch:base-models first`);
+  }
+  return tf.loadLayersModel(spec.remoteUrl);
+}
+
+async function train(options: Options) {
+  const spec = getBaseModelSpec(options.baseModelId);
+  if (!spec) {
+    throw new UsageError(`Unknown base model ${options.baseModelId}`);
+  }
+  const config = await readConfig(options.configPath);
+  const { classNames, sources, sampleCounts } = await readDataset(options.datasetDir);
+
+  await tf.setBackend("cpu");
+  console.error(`Loading ${spec.name}...`);
+  const baseModel = await loadBaseModel(spec);
+  const featureExtractor = createFeatureExtractor(baseModel, spec.featureLayer);
+  console.error(`Training on ${sources.length} images in ${classNames.length} classes`);
+
+  const controller = createTrainingController();
+  process.once("SIGINT", () => {
+    console.error("Cancelling after the current epoch...");
+    controller.cancel(false);
+  });
+
+  const result = await runTrainingJob(baseModel, featureExtractor, spec, sources, classNames, config, {
+    onFoldStart: (fold, totalFolds) => console.error(`Fold ${fold}/${totalFolds}`),
+    onEpochEnd: (progress, entry) => {
+      const validation = entry.valAccuracy !== undefined ? ` val_acc=${entry.valAccuracy.toFixed(1)}%` : "";
+      console.error(
+        `[${progress.phase}] epoch ${progress.epoch}/${progress.totalEpochs} ` +
+        `loss=${entry.loss.toFixed(4)} acc=${entry.accuracy.toFixed(1)}%${validation}`,
+      );
+    },
+  }, controller);
+
+  const summary = {
+    dataset: options.datasetDir,
+    baseModel: spec.id,
+    classes: classNames.map(name => ({ name, samples: sampleCounts[name] })),
+    skippedSamples: result.skippedSampleIds,
+    crossValidation: result.crossValidation && {
+      accuracy: result.crossValidation.accuracy,
+      loss: result.crossValidation.loss,
+    },
+  };
+  if (!result.trained) {
+    return { ...summary, status: result.cancelled ? "cancelled" as const : "evaluated" as const };
+  }
+
+  const { transferModel, record } = result.trained;
+  const metadata = createModelMetadata(
+    classNames.map((name, index) => ({ name, color: CLASS_COLORS[index % CLASS_COLORS.length] })),
+    spec,
+    record,
+  );
+  const files = await createTeachableMachineFiles(
+    transferModel.featureExtractor, transferModel.head, spec, metadata, path.basename(options.datasetDir),
+  );
+  await fs.promises.mkdir(options.outDir, { recursive: true });
+  await fs.promises.writeFile(path.join(options.outDir, "model.json"), files["model.json"]);
+  await fs.promises.writeFile(path.join(options.outDir, "weights.bin"), Buffer.from(files["weights.bin"]));
+  await fs.promises.writeFile(path.join(options.outDir, "metadata.json"), files["metadata.json"]);
+  const report = {
+    ...summary,
+    stopReason: record.stopReason,
+    bestEpoch: record.bestEpoch,
+    fineTuning: record.fineTuning,
+    history: record.history,
+    evaluation: record.evaluation,
+    crossValidation: record.crossValidation,
+  };
+  await fs.promises.writeFile(path.join(options.outDir, "report.json"), JSON.stringify(report, null, 2));
+
+  return {
+    ...summary,
+    status: result.cancelled ? "cancelled" as const : "completed" as const,
+    outDir: options.outDir,
+    stopReason: record.stopReason,
+    epochs: record.history.length,
+    evaluation: record.evaluation && {
+      accuracy: record.evaluation.accuracy,
+      loss: record.evaluation.loss,
+      macroF1: record.evaluation.macroF1,
+      sampleCount: record.evaluation.sampleCount,
+    },
+  };
+}
+
+(async () => {
+  try {
+    const summary = await train(parseArgs(process.argv.slice(2)));
+    console.log(JSON.stringify(summary, null, 2));
+    process.exitCode = summary.status === "cancelled" ? EXIT_CODES.cancelled : EXIT_CODES.success;
+  } catch (error) {
+    const usage = error instanceof UsageError;
+    if (!usage) console.error(error);
+    console.log(JSON.stringify({ status: "failed", error: (error as Error).message }, null, 2));
+    process.exitCode = usage ? EXIT_CODES.usage : EXIT_CODES.failed;
+  }
+})();
@@ -0,0 +1,188 @@
+import * as tf from "@tensorflow/tfjs";
+import JSZip from "jszip";
+import jpeg from "jpeg-js";
+import { PNG } from "pngjs";
+import type { BaseModelSpec, ModelMetadata, Prediction } from "@/types/ml-types";
+import { preprocessTensor } from "@/lib/ml-utils";
+import { applyRejection } from "@/lib/open-set";
+import {
+  fromTeachableMachineMetadata,
+  isModelMetadata,
+  isTeachableMachineMetadata,
+  teachableMachineSpec,
+} from "@/lib/model-export";
+
+// Runs exported models on the server with the pure-JS CPU backend, using the
+// same preprocessing as the browser app so predictions match.
+
+export interface UploadedFile {
+  name: string;
+  buffer: Buffer;
+}
+
+export interface LoadedModel {
+  model: tf.LayersModel;
+  spec: BaseModelSpec; // Preprocessing the full graph expects
+  metadata: ModelMetadata;
+}
+
+export class InferenceError extends Error {
+  status = 400;
+}
+
+const backendReady = tf.setBackend("cpu").then(() => tf.ready());
+
+function baseName(path: string): string {
+  return path.split("/").pop() as string;
+}
+
+function isModelJson(content: unknown): content is tf.io.ModelJSON {
+  return typeof content === "object" && content !== null &&
+    "modelTopology" in content && typeof content.modelTopology === "object" && content.modelTopology !== null &&
+    "weightsManifest" in content && Array.isArray(content.weightsManifest) &&
+    content.weightsManifest.every(group => Array.isArray(group?.paths) && Array.isArray(group?.weights));
+}
+
+function toArrayBuffer(buffer: Buffer): ArrayBuffer {
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+}
+
+// Zips are unpacked to their model.json, weight and metadata files
+async function expandZips(files: UploadedFile[]): Promise<UploadedFile[]> {
+  const expanded: UploadedFile[] = [];
+  for (const file of files) {
+    if (!file.name.endsWith(".zip")) {
+      expanded.push(file);
+      continue;
+    }
+    const zip = await JSZip.loadAsync(file.buffer);
+    for (const entry of Object.values(zip.files)) {
+      if (entry.dir) continue;
+      expanded.push({ name: baseName(entry.name), buffer: await entry.async("nodebuffer") });
+    }
+  }
+  return expanded;
+}
+
+// Topology from model.json with the weights of the files it lists
+export function readModelArtifacts(modelJson: tf.io.ModelJSON, files: UploadedFile[]): tf.io.ModelArtifacts {
+  const weightSpecs: tf.io.WeightsManifestEntry[] = [];
+  const weightBuffers: Buffer[] = [];
+  for (const group of modelJson.weightsManifest) {
+    for (const path of group.paths) {
+      const file = files.find(file => file.name === baseName(path));
+      if (!file) {
+        throw new InferenceError(`Weight file ${baseName(path)} is missing`);
+      }
+      weightBuffers.push(file.buffer);
+    }
+    weightSpecs.push(...group.weights);
+  }
+  return {
+    modelTopology: modelJson.modelTopology,
+    weightSpecs,
+    weightData: toArrayBuffer(Buffer.concat(weightBuffers)),
+  };
+}
+
+// Reads the files written by the app's export: model.json, its weight files
+// and metadata, loose or in a zip. Teachable Machine exports carry their
+// normalization in the graph and take pixels scaled with x / 127 - 1; older
+// exports with only our metadata take the base model's own range.
+export async function loadExportedModel(files: UploadedFile[]): Promise<LoadedModel> {
+  await backendReady;
+  const allFiles = await expandZips(files);
+
+  let modelJson: tf.io.ModelJSON | undefined;
+  let metadata: ModelMetadata | undefined;
+  let spec: BaseModelSpec | undefined;
+  for (const file of allFiles.filter(file => file.name.endsWith(".json"))) {
+    let content: unknown;
+    try {
+      content = JSON.parse(file.buffer.toString("utf8"));
+    } catch (err) {
+      throw new InferenceError(`${file.name} is not valid JSON`);
+    }
+    if (isModelJson(content)) {
+      modelJson = content;
+    } else if (isTeachableMachineMetadata(content)) {
+      metadata = fromTeachableMachineMetadata(content);
+      spec = teachableMachineSpec(content.imageSize);
+    } else if (isModelMetadata(content)) {
+      metadata = content;
+      spec = content.baseModel;
+    }
+  }
+  if (!modelJson) {
+    throw new InferenceError("model.json is required to upload a model");
+  }
+  if (!metadata || !spec) {
+    throw new InferenceError("The metadata file is required to know the model's labels and preprocessing");
+  }
+
+  const model = await tf.loadLayersModel(tf.io.fromMemory(readModelArtifacts(modelJson, allFiles)));
+
+  const outputCount = model.outputs[0].shape[1] as number;
+  if (metadata.labels.length !== outputCount) {
+    model.dispose();
+    throw new InferenceError(`The model has ${outputCount} outputs but its metadata lists ${metadata.labels.length} classes`);
+  }
+  return { model, spec, metadata };
+}
+
+// Decodes a JPEG or PNG to [height, width, 3] pixels in [0, 255], dropping
+// alpha the way tf.browser.fromPixels does
+export function decodeImage(buffer: Buffer): tf.Tensor3D {
+  let image: { width: number; height: number; data: Uint8Array };
+  try {
+    if (buffer[0] === 0x89 && buffer.subarray(1, 4).toString("ascii") === "PNG") {
+      image = PNG.sync.read(buffer);
+    } else if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+      image = jpeg.decode(buffer, { useTArray: true, formatAsRGBA: true });
+    } else {
+      throw new InferenceError("Only JPEG and PNG images are supported");
+    }
+  } catch (err) {
+    if (err instanceof InferenceError) throw err;
+    throw new InferenceError("The image could not be decoded");
+  }
+
+  const pixelCount = image.width * image.height;
+  const rgb = new Int32Array(pixelCount * 3);
+  for (let i = 0; i < pixelCount; i++) {
+    rgb[i * 3] = image.data[i * 4];
+    rgb[i * 3 + 1] = image.data[i * 4 + 1];
+    rgb[i * 3 + 2] = image.data[i * 4 + 2];
+  }
+  return tf.tensor3d(rgb, [image.height, image.width, 3], "int32");
+}
+
+// Accepts plain base64 or a data: URL
+export function decodeBase64Image(text: string): Buffer {
+  const base64 = text.replace(/^data:image\/[a-z+.-]+;base64,/i, "");
+  const buffer = Buffer.from(base64, "base64");
+  if (buffer.length === 0) {
+    throw new InferenceError("The image is empty");
+  }
+  return buffer;
+}
+
+// Same shape as the client's predictions: confidence in percent, best first
+export async function predictImage(loaded: LoadedModel, image: Buffer): Promise<Prediction[]> {
+  await backendReady;
+  const pixels = decodeImage(image);
+  const output = tf.tidy(() => loaded.model.predict(preprocessTensor(pixels, loaded.spec)) as tf.Tensor);
+  pixels.dispose();
+  const probabilities = await output.data();
+  output.dispose();
+
+  const predictions: Prediction[] = Array.from(probabilities).map((confidence, index) => ({
+    className: loaded.metadata.labels[index] ?? `Class ${index + 1}`,
+    confidence: confidence * 100,
+    classIndex: index,
+  }));
+  predictions.sort((a, b) => b.confidence - a.confidence);
+  // The confidence and margin rules saved with the model; the distance rule
+  // needs the embedding, which the exported graph does not expose
+  return applyRejection(predictions, loaded.metadata.rejection);
+}
@@ -1,13 +1,120 @@
-import type { Express } from "express";
+import express, { type Express, type Response, type NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import path from "path";
+import multer from "multer";
+import { storage, type HostedModel } from "./storage";
+import { InferenceError, decodeBase64Image, loadExportedModel, predictImage } from "./inference";
+
+// Base model weights (e.g. base-models/mobilenet_v1_1.0_224/model.json) are
+// served locally so classrooms without internet access still get MobileNet.
+const baseModelsDir =
+  process.env.BASE_MODELS_DIR ??
+  path.resolve(import.meta.dirname, "..", "base-models");
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 100 * 1024 * 1024 },
+});
+
+function describeModel(model: HostedModel) {
+  return {
+    id: model.id,
+    name: model.name,
+    labels: model.metadata.labels,
+    baseModel: model.metadata.baseModel.name,
+    inputSize: model.spec.inputSize,
+    uploadedAt: model.uploadedAt,
+  };
+}
+
+// Bad uploads are the client's fault; anything else goes to the error handler
+function handleInferenceError(err: unknown, res: Response, next: NextFunction) {
+  if (err instanceof InferenceError) {
+    res.status(err.status).json({ message: err.message });
+  } else {
+    next(err);
+  }
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // put application routes here
   // prefix all routes with /api
 
-  // use storage to perform CRUD operations on the storage interface
-  // e.g. storage.insertUser(user) or storage.getUserByUsername(username)
+  app.use("/api/base-models", express.static(baseModelsDir));
+  app.use("/api/base-models", (req, res) => {
+    res.status(404).json({ message: `Base model file not found: ${req.path}` });
+  });
+
+  // Exported models (the zip, or model.json with its weights and metadata)
+  // are hosted in memory for devices that cannot run a browser
+  app.get("/api/models", async (_req, res) => {
+    const models = await storage.listModels();
+    res.json(models.map(describeModel));
+  });
+
+  app.post("/api/models", upload.array("files"), async (req, res, next) => {
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    if (files.length === 0) {
+      return res.status(400).json({ message: "Upload the exported model as multipart field \"files\"" });
+    }
+
+    try {
+      const loaded = await loadExportedModel(
+        files.map(file => ({ name: file.originalname, buffer: file.buffer })),
+      );
+      const name = typeof req.body.name === "string" && req.body.name.trim()
+        ? req.body.name.trim()
+        : files[0].originalname.replace(/\.[^.]+$/, "");
+      const model = await storage.createModel({ ...loaded, name });
+      res.status(201).json(describeModel(model));
+    } catch (err) {
+      handleInferenceError(err, res, next);
+    }
+  });
+
+  app.get("/api/models/:id", async (req, res) => {
+    const model = await storage.getModel(Number(req.params.id));
+    if (!model) {
+      return res.status(404).json({ message: `Model not found: ${req.params.id}` });
+    }
+    res.json(describeModel(model));
+  });
+
+  app.delete("/api/models/:id", async (req, res) => {
+    const model = await storage.deleteModel(Number(req.params.id));
+    if (!model) {
+      return res.status(404).json({ message: `Model not found: ${req.params.id}` });
+    }
+    model.model.dispose();
+    res.status(204).end();
+  });
+
+  // The image comes as multipart field "image", or as base64 (optionally a
+  // data: URL) in the "image" field of a JSON body
+  app.post("/api/models/:id/predict", upload.single("image"), async (req, res, next) => {
+    const model = await storage.getModel(Number(req.params.id));
+    if (!model) {
+      return res.status(404).json({ message: `Model not found: ${req.params.id}` });
+    }
+
+    try {
+      let image: Buffer;
+      if (req.file) {
+        image = req.file.buffer;
+      } else if (typeof req.body?.image === "string") {
+        image = decodeBase64Image(req.body.image);
+      } else {
+        return res.status(400).json({ message: "Send the image as multipart field \"image\" or as base64 in a JSON body" });
+      }
+
+      const start = performance.now();
+      const predictions = await predictImage(model, image);
+      const inferenceTimeMs = performance.now() - start;
+      res.json({ modelId: model.id, predictions, inferenceTimeMs });
+    } catch (err) {
+      handleInferenceError(err, res, next);
+    }
+  });
 
   const httpServer = createServer(app);
 
@@ -1,4 +1,14 @@
 import { users, type User, type InsertUser } from "@shared/schema";
+import type { LoadedModel } from "./inference";
+
+// Models uploaded for server-side inference, kept in memory with their weights
+export interface HostedModel extends LoadedModel {
+  id: number;
+  name: string;
+  uploadedAt: string;
+}
+
+export type InsertHostedModel = Omit<HostedModel, "id" | "uploadedAt">;
 
 // modify the interface with any CRUD methods
 // you might need
@@ -7,15 +17,23 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getModel(id: number): Promise<HostedModel | undefined>;
+  listModels(): Promise<HostedModel[]>;
+  createModel(model: InsertHostedModel): Promise<HostedModel>;
+  deleteModel(id: number): Promise<HostedModel | undefined>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private models: Map<number, HostedModel>;
   currentId: number;
+  currentModelId: number;
 
   constructor() {
     this.users = new Map();
+    this.models = new Map();
     this.currentId = 1;
+    this.currentModelId = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -34,6 +52,28 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async getModel(id: number): Promise<HostedModel | undefined> {
+    return this.models.get(id);
+  }
+
+  async listModels(): Promise<HostedModel[]> {
+    return Array.from(this.models.values());
+  }
+
+  async createModel(insertModel: InsertHostedModel): Promise<HostedModel> {
+    const id = this.currentModelId++;
+    const model: HostedModel = { ...insertModel, id, uploadedAt: new Date().toISOString() };
+    this.models.set(id, model);
+    return model;
+  }
+
+  // The caller frees the model's weights
+  async deleteModel(id: number): Promise<HostedModel | undefined> {
+    const model = this.models.get(id);
+    this.models.delete(id);
+    return model;
+  }
 }
 
 export const storage = new MemStorage();
@@ -28,6 +28,9 @@ export default defineConfig({
     outDir: path.resolve(import.meta.dirname, "dist/public"),
     emptyOutDir: true,
   },
+  worker: {
+    format: "es",
+  },
   server: {
     fs: {
       strict: true,